@@ -1,6 +1,7 @@
 import {
   MapboxContextMenu,
   ContextMenuItem,
+  ContextMenuCopyCoordinatesItem,
   ContextMenuLabel,
   ContextMenuSeparator,
   ContextMenuSubmenu
@@ -26,17 +27,11 @@ const map = new mapboxgl.Map({
 // Factory function to create common menu items
 // (each menu needs its own instances)
 function createCommonItems() {
-  const copyCoordinatesItem = new ContextMenuItem({
-    label: "Copy coordinates",
+  const copyCoordinatesItem = new ContextMenuCopyCoordinatesItem({
+    order: "lnglat",
     start: { className: "fa-solid fa-location-dot" }
   });
 
-  copyCoordinatesItem.on("click", async ({ lngLat }) => {
-    const lng = lngLat.lng.toFixed(6);
-    const lat = lngLat.lat.toFixed(6);
-    await navigator.clipboard.writeText(`${lng}, ${lat}`);
-  });
-
   const centerMapItem = new ContextMenuItem({
     label: "Center map here",
     start: { className: "fa-solid fa-crosshairs" }
@@ -68,7 +63,11 @@ function createCommonItems() {
 
 map.on("load", () => {
   // General context menu (anywhere on the map)
-  const contextMenu = new MapboxContextMenu({ width: 200 });
+  const contextMenu = new MapboxContextMenu({
+    width: 200,
+    marker: true,
+    keyboard: true
+  });
 
   for (const item of createCommonItems()) {
     contextMenu.addItem(item);
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ContextMenuContext } from "../../types";
+import ContextMenuItem from "../ContextMenuItem";
+import ContextMenuSeparator from "../ContextMenuSeparator";
+import ContextMenu from "./ContextMenu";
+
+const ctx = {
+  map: {},
+  event: { point: { x: 0, y: 0 }, lngLat: { lng: 0, lat: 0 } }
+} as unknown as ContextMenuContext;
+
+function press(key: string): void {
+  (document.activeElement ?? document.body).dispatchEvent(
+    new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true })
+  );
+}
+
+function focusedLabel(): string | undefined {
+  return document.activeElement?.closest("li")?.textContent?.trim();
+}
+
+describe("ContextMenu keyboard navigation", () => {
+  let container: HTMLElement;
+  let menu: ContextMenu;
+
+  function showMenu(options?: { wrapFocus?: boolean }): void {
+    menu = new ContextMenu(options);
+    menu.addItem(new ContextMenuItem({ label: "Copy" }));
+    menu.addItem(new ContextMenuItem({ label: "Cut" }));
+    menu.addItem(new ContextMenuItem({ label: "Delete", disabled: true }));
+    menu.addItem(new ContextMenuItem({ label: "Center map here" }));
+    menu.addItem(new ContextMenuSeparator());
+    menu.addItem(new ContextMenuItem({ label: "Zoom in" }));
+    menu.addTo(container);
+    menu.show(0, 0, ctx);
+  }
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    menu.remove();
+    container.remove();
+    vi.useRealTimers();
+  });
+
+  it("moves to the first and last focusable items with Home and End", () => {
+    showMenu();
+
+    press("End");
+    expect(focusedLabel()).toBe("Zoom in");
+
+    press("Home");
+    expect(focusedLabel()).toBe("Copy");
+  });
+
+  it("skips disabled items and separators with the arrow keys", () => {
+    showMenu();
+
+    press("ArrowDown");
+    press("ArrowDown");
+    press("ArrowDown");
+    expect(focusedLabel()).toBe("Center map here");
+
+    press("ArrowDown");
+    expect(focusedLabel()).toBe("Zoom in");
+  });
+
+  it("stops at the ends unless focus wraps", () => {
+    showMenu();
+    press("End");
+    press("ArrowDown");
+    expect(focusedLabel()).toBe("Zoom in");
+
+    menu.remove();
+    showMenu({ wrapFocus: true });
+    press("End");
+    press("ArrowDown");
+    expect(focusedLabel()).toBe("Copy");
+  });
+
+  it("cycles through items starting with a repeated character", () => {
+    showMenu();
+
+    press("c");
+    expect(focusedLabel()).toBe("Copy");
+    press("c");
+    expect(focusedLabel()).toBe("Cut");
+    press("c");
+    expect(focusedLabel()).toBe("Center map here");
+    press("c");
+    expect(focusedLabel()).toBe("Copy");
+  });
+
+  it("matches typed prefixes, including the focused item", () => {
+    showMenu();
+
+    press("c");
+    press("e");
+    expect(focusedLabel()).toBe("Center map here");
+
+    press("End");
+    press("z");
+    press("o");
+    expect(focusedLabel()).toBe("Zoom in");
+  });
+
+  it("starts a new search after a pause in typing", () => {
+    vi.useFakeTimers();
+    showMenu();
+
+    press("c");
+    press("u");
+    expect(focusedLabel()).toBe("Cut");
+
+    vi.advanceTimersByTime(500);
+    press("z");
+    expect(focusedLabel()).toBe("Zoom in");
+  });
+
+  it("doesn't match disabled items", () => {
+    showMenu();
+
+    press("d");
+    expect(focusedLabel()).toBeUndefined();
+  });
+});
@@ -1,11 +1,32 @@
-import type { ContextMenuContext, ContextMenuEvent, MenuItem } from "../../types";
+import type {
+  ContextMenuContext,
+  ContextMenuEvent,
+  ItemsProvider,
+  ItemsProviderOptions,
+  MenuItem
+} from "../../types";
 import { Evented } from "../../util/evented";
 import { isFocusable } from "../../util/focusable";
+import ContextMenuCustomItem from "../ContextMenuCustomItem/ContextMenuCustomItem";
+import ContextMenuGroup from "../ContextMenuGroup/ContextMenuGroup";
 import ContextMenuItem from "../ContextMenuItem/ContextMenuItem";
+import ContextMenuLabel from "../ContextMenuLabel/ContextMenuLabel";
+import ContextMenuSearch from "../ContextMenuSearch/ContextMenuSearch";
+import ContextMenuSeparator from "../ContextMenuSeparator/ContextMenuSeparator";
 import ContextMenuSubmenu from "../ContextMenuSubmenu/ContextMenuSubmenu";
-import { createElement } from "../../util/dom";
+import { createElement, isEditableElement } from "../../util/dom";
+import { fitInContainer } from "../../util/position";
 import styles from "./ContextMenu.module.scss";
 
+/** Delay before re-checking a hover that was put off by submenu hover intent (in milliseconds) */
+const HOVER_INTENT_DELAY = 100;
+
+/** Time after the last keystroke before the typeahead buffer is cleared (in milliseconds) */
+const TYPEAHEAD_RESET_DELAY = 500;
+
+/** Distance scrolled per animation frame while the pointer rests on a scroll indicator (in pixels) */
+const AUTO_SCROLL_STEP = 4;
+
 export type ContextMenuTheme = "light" | "dark" | "auto";
 
 export interface ContextMenuOptions {
@@ -15,6 +36,13 @@ export interface ContextMenuOptions {
   theme?: ContextMenuTheme;
   /** The menu width as a CSS value (e.g., "200px") or number in pixels. */
   width?: string | number;
+  /** Whether keyboard focus wraps from the last item to the first and back. Defaults to `false`. */
+  wrapFocus?: boolean;
+  /**
+   * The maximum menu height as a CSS value (e.g., "50vh") or number in pixels. Taller menus
+   * scroll. The menu never grows taller than its container. Defaults to the container height.
+   */
+  maxHeight?: string | number;
 }
 
 export type ContextMenuEvents = {
@@ -22,6 +50,8 @@ export type ContextMenuEvents = {
   show: ContextMenuEvent;
   /** Fired when the context menu is hidden. */
   hide: ContextMenuEvent;
+  /** Fired when the items provider fails while the menu is shown. */
+  error: ContextMenuEvent;
 };
 
 export default class ContextMenu extends Evented<ContextMenuEvents> {
@@ -29,15 +59,33 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
   protected _className: string;
   protected _theme: ContextMenuTheme;
   private _width: string | number | undefined;
+  private _maxHeight: string | number | undefined;
   protected _menuEl: HTMLElement | null = null;
   private _container: HTMLElement | null = null;
 
   protected _handlers: Record<string, EventListener | null> = {};
 
   private _focusedIndex: number = -1;
-  private _currentContext: ContextMenuContext | null = null;
+  protected _currentContext: ContextMenuContext | null = null;
 
   private _onEscapeLeft: (() => void) | null = null;
+  private _openedLeft: boolean = false;
+  private _hoverIntentTimeout: number | null = null;
+  private _wrapFocus: boolean;
+  private _typeaheadBuffer: string = "";
+  private _typeaheadTimeout: number | null = null;
+
+  private _itemsProvider: ItemsProvider | null = null;
+  private _itemsProviderOptions: ItemsProviderOptions = {};
+  private _providedItems: MenuItem[] = [];
+  private _providedContext: ContextMenuContext | null = null;
+  private _providedLoaded: boolean = false;
+  private _providerRequest: number = 0;
+  private _position: { x: number; y: number } = { x: 0, y: 0 };
+
+  private _scrollUpEl: HTMLElement | null = null;
+  private _scrollDownEl: HTMLElement | null = null;
+  private _autoScrollFrame: number | null = null;
 
   constructor(options?: ContextMenuOptions) {
     super();
@@ -46,6 +94,8 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
       : styles.menu;
     this._theme = options?.theme ?? "auto";
     this._width = options?.width;
+    this._maxHeight = options?.maxHeight;
+    this._wrapFocus = options?.wrapFocus ?? false;
   }
 
   /**
@@ -65,6 +115,23 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     this._updateWidth();
   }
 
+  /**
+   * Gets the maximum height of the context menu.
+   * @returns The maximum height as a string (e.g., "50vh") or number (in pixels), or undefined if not set.
+   */
+  get maxHeight(): string | number | undefined {
+    return this._maxHeight;
+  }
+
+  /**
+   * Sets the maximum height of the context menu. Taller menus scroll.
+   * @param value - The maximum height as a string (e.g., "50vh") or number (in pixels), or undefined to use the container height.
+   */
+  set maxHeight(value: string | number | undefined) {
+    this._maxHeight = value;
+    this._updateMaxHeight();
+  }
+
   /**
    * Gets the theme of the context menu.
    * @returns The current theme setting: "light", "dark", or "auto".
@@ -82,6 +149,22 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     this._updateTheme();
   }
 
+  /**
+   * Gets whether keyboard focus wraps from the last item to the first and back.
+   * @returns `true` if focus wraps, `false` if it stops at either end.
+   */
+  get wrapFocus(): boolean {
+    return this._wrapFocus;
+  }
+
+  /**
+   * Sets whether keyboard focus wraps from the last item to the first and back.
+   * @param value - `true` to wrap focus, `false` to stop at either end.
+   */
+  set wrapFocus(value: boolean) {
+    this._wrapFocus = value;
+  }
+
   /**
    * Sets the CSS class name for the menu element.
    * @param value - The class name to apply. Will be combined with the base menu class.
@@ -99,6 +182,17 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     return this._items;
   }
 
+  /**
+   * Gets the menu items in order, with the items of each group in place of the group.
+   * Keyboard navigation moves through this list.
+   * @internal
+   */
+  get flatItems(): MenuItem[] {
+    return this._items.flatMap((item) =>
+      item instanceof ContextMenuGroup ? [...item.items] : [item]
+    );
+  }
+
   /**
    * Set a callback to be invoked when ArrowLeft is pressed.
    * Used by submenus to return focus to parent.
@@ -108,6 +202,26 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     this._onEscapeLeft = callback;
   }
 
+  /**
+   * Whether the context menu is currently open.
+   */
+  get isOpen(): boolean {
+    return !!this._menuEl?.classList.contains(styles.visible);
+  }
+
+  /**
+   * Whether the menu was last opened to the left of its parent item.
+   * Nested submenus keep opening in the same direction while they fit.
+   * @internal
+   */
+  get openedLeft(): boolean {
+    return this._openedLeft;
+  }
+
+  set openedLeft(value: boolean) {
+    this._openedLeft = value;
+  }
+
   get menuElement(): HTMLElement | null {
     return this._menuEl;
   }
@@ -116,8 +230,9 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
    * Focus the first focusable item in the menu.
    */
   focusFirstItem(): void {
-    for (let i = 0; i < this._items.length; i++) {
-      if (this._isFocusable(this._items[i])) {
+    const items = this.flatItems;
+    for (let i = 0; i < items.length; i++) {
+      if (this._isFocusable(items[i])) {
         this._focusItem(i);
         return;
       }
@@ -159,6 +274,50 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     return this;
   }
 
+  /**
+   * Empties the menu without removing its items, for items that are also shown in
+   * another menu.
+   * @internal
+   */
+  releaseItems(): void {
+    this._items = [];
+  }
+
+  /**
+   * Renders the menu again while it is open, e.g. after its items changed.
+   * @internal
+   */
+  refresh(): void {
+    if (this._currentContext) {
+      this._refresh(this._currentContext);
+    }
+  }
+
+  /**
+   * Sets a provider for menu items that are loaded when the menu is shown, e.g. from server data.
+   *
+   * The provided items are shown after the menu's own items. A loading row is shown until the
+   * provider settles, and the result is discarded if the menu is hidden before then.
+   *
+   * @param provider - A function returning the items (or a promise of them) for the current context, or `null` to remove the provider.
+   * @param options - Optional settings for the provider.
+   * @param options.cache - Whether to call the provider only the first time the menu is shown. Defaults to `false`.
+   * @param options.loadingText - Text for the loading row. Defaults to "Loading…".
+   * @returns The context menu instance for method chaining.
+   */
+  setItemsProvider(
+    provider: ItemsProvider | null,
+    options?: ItemsProviderOptions
+  ): this {
+    this._removeProvidedItems();
+    this._itemsProvider = provider;
+    this._itemsProviderOptions = options ?? {};
+    this._providedContext = null;
+    this._providedLoaded = false;
+    this._providerRequest++;
+    return this;
+  }
+
   /**
    * Adds the context menu to a container element.
    * @param container - The HTML element to add the menu to. The menu will be positioned absolutely within this container.
@@ -177,10 +336,13 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
   remove(): this {
     this._removeItems();
     this._removeEventListeners();
+    this._stopAutoScroll();
 
     this._menuEl?.remove();
 
     this._menuEl = null;
+    this._scrollUpEl = null;
+    this._scrollDownEl = null;
     this._container = null;
     return this;
   }
@@ -203,16 +365,27 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
 
     const { focusMenu = true } = options ?? {};
 
-    this._items.forEach((item) => {
-      item.render(this._menuEl!, context);
-    });
+    if (this._itemsProvider && context !== this._providedContext) {
+      this._loadProvidedItems(context);
+    }
+
+    const search = this._findSearch();
+    if (search) {
+      search.value = "";
+    }
 
+    this._renderItems(context);
+    this._updateMaxHeight();
+    this._menuEl.scrollTop = 0;
+
+    this._position = { x, y };
     const { left, top } = this._positionInViewport(x, y);
 
     this._menuEl.style.left = `${left}px`;
     this._menuEl.style.top = `${top}px`;
 
     this._menuEl.classList.add(styles.visible);
+    this._updateScrollIndicators();
 
     this._focusedIndex = -1;
 
@@ -241,6 +414,14 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     if (!this._menuEl) return;
 
     this._menuEl.classList.remove(styles.visible);
+    this._cancelHoverIntent();
+    this._stopAutoScroll();
+
+    if (this._typeaheadTimeout !== null) {
+      clearTimeout(this._typeaheadTimeout);
+      this._typeaheadTimeout = null;
+    }
+    this._typeaheadBuffer = "";
 
     if (this._handlers.keydown) {
       document.removeEventListener("keydown", this._handlers.keydown);
@@ -248,28 +429,200 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     }
 
     if (this._focusedIndex !== -1) {
-      const item = this._items[this._focusedIndex];
+      const item = this.flatItems[this._focusedIndex];
       if (isFocusable(item)) {
         item.blur();
       }
       this._focusedIndex = -1;
     }
 
-    // Close any open submenus
-    this._items.forEach((item) => {
+    // Close any open submenus and cancel pending confirmations
+    this.flatItems.forEach((item) => {
       if (item instanceof ContextMenuSubmenu) {
         item.closeSubmenu();
+      } else if (item instanceof ContextMenuItem) {
+        item.cancelConfirm();
       }
     });
 
+    this._resetProvidedItems();
+
     if (this._currentContext) {
       this.fire("hide", this._createEvent("hide", this._currentContext));
       this._currentContext = null;
     }
   }
 
+  private _renderItems(context: ContextMenuContext): void {
+    this.flatItems.forEach((item) => {
+      if (item instanceof ContextMenuSubmenu) {
+        item.parentMenu = this;
+      } else if (item instanceof ContextMenuSearch) {
+        item.onQueryChange = () => this._handleQueryChange();
+      }
+    });
+
+    // Groups render their own items
+    const rendered: Element[] = this._items.map((item) =>
+      item.render(this._menuEl!, context)
+    );
+
+    // Items can be shown in more than one menu, such as under each feature of a
+    // feature chooser, so drop any left here from a menu shown since
+    for (const child of Array.from(this._menuEl!.children)) {
+      if (
+        child !== this._scrollUpEl &&
+        child !== this._scrollDownEl &&
+        !rendered.includes(child)
+      ) {
+        child.remove();
+      }
+    }
+
+    // Keep the bottom indicator after items added since the last render
+    if (this._scrollDownEl) {
+      this._menuEl!.appendChild(this._scrollDownEl);
+    }
+
+    this._applyFilter();
+  }
+
+  private _findSearch(): ContextMenuSearch | undefined {
+    return this.flatItems.find(
+      (item): item is ContextMenuSearch => item instanceof ContextMenuSearch
+    );
+  }
+
+  private _handleQueryChange(): void {
+    if (!this._menuEl) return;
+
+    this._applyFilter();
+    this._menuEl.scrollTop = 0;
+    this._updateScrollIndicators();
+  }
+
+  /**
+   * Hides the items whose label doesn't contain the text of the menu's search item.
+   */
+  private _applyFilter(): void {
+    const query = this._findSearch()?.value.trim().toLowerCase() ?? "";
+
+    for (const item of this.flatItems) {
+      if (item instanceof ContextMenuItem) {
+        item.filtered =
+          query !== "" && !item.label.toLowerCase().includes(query);
+      }
+    }
+
+    this._collapseSeparators(this._items, query !== "");
+  }
+
+  private _loadProvidedItems(context: ContextMenuContext): void {
+    if (this._itemsProviderOptions.cache && this._providedLoaded) return;
+
+    const provider = this._itemsProvider!;
+    const request = ++this._providerRequest;
+
+    this._providedContext = context;
+    this._removeProvidedItems();
+    this._addProvidedItems([
+      new ContextMenuLabel({
+        text: this._itemsProviderOptions.loadingText ?? "Loading…"
+      })
+    ]);
+    this._menuEl?.setAttribute("aria-busy", "true");
+
+    const settle = () => {
+      this._removeProvidedItems();
+      this._menuEl?.removeAttribute("aria-busy");
+    };
+
+    Promise.resolve()
+      .then(() => provider(context))
+      .then(
+        (items) => {
+          // The menu was hidden or the provider replaced while loading
+          if (request !== this._providerRequest) return;
+
+          settle();
+          this._addProvidedItems(items);
+          this._providedLoaded = true;
+          this._refresh(context);
+        },
+        (error: unknown) => {
+          if (request !== this._providerRequest) return;
+
+          settle();
+          this._refresh(context);
+          this.fire("error", { ...this._createEvent("error", context), error });
+        }
+      );
+  }
+
+  /**
+   * Adds provided items to the menu, after its own items.
+   * @internal
+   */
+  protected _insertProvidedItems(items: MenuItem[]): void {
+    this._items.push(...items);
+  }
+
+  /**
+   * Takes provided items out of the menu before they are removed.
+   * @internal
+   */
+  protected _withdrawProvidedItems(items: MenuItem[]): void {
+    items.forEach((item) => {
+      const index = this._items.indexOf(item);
+      if (index !== -1) {
+        this._items.splice(index, 1);
+      }
+    });
+  }
+
+  private _addProvidedItems(items: MenuItem[]): void {
+    this._providedItems = items;
+    this._insertProvidedItems(items);
+  }
+
+  private _removeProvidedItems(): void {
+    this._withdrawProvidedItems(this._providedItems);
+    this._providedItems.forEach((item) => item.remove());
+    this._providedItems = [];
+  }
+
+  private _resetProvidedItems(): void {
+    if (!this._itemsProvider) return;
+
+    // Keep cached items, but discard anything still loading
+    this._providerRequest++;
+    if (this._itemsProviderOptions.cache && this._providedLoaded) return;
+
+    this._removeProvidedItems();
+    this._menuEl?.removeAttribute("aria-busy");
+    this._providedContext = null;
+  }
+
+  /**
+   * Renders items added while the menu is open and keeps the menu inside its container.
+   */
+  private _refresh(context: ContextMenuContext): void {
+    if (!this._menuEl || !this.isOpen) return;
+
+    this._renderItems(context);
+    this._updateMaxHeight();
+
+    const { left, top } = this._positionInViewport(
+      this._position.x,
+      this._position.y
+    );
+    this._menuEl.style.left = `${left}px`;
+    this._menuEl.style.top = `${top}px`;
+    this._updateScrollIndicators();
+  }
+
   private _createEvent(
-    type: "show" | "hide",
+    type: ContextMenuEvent["type"],
     context: ContextMenuContext
   ): ContextMenuEvent {
     const { event, map } = context;
@@ -285,8 +638,8 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
   }
 
   private _focusItem(index: number): void {
-    if (this._focusedIndex !== -1 && this._items[this._focusedIndex]) {
-      const prevItem = this._items[this._focusedIndex];
+    if (this._focusedIndex !== -1 && this.flatItems[this._focusedIndex]) {
+      const prevItem = this.flatItems[this._focusedIndex];
       // Close submenu if moving away from a submenu item
       if (prevItem instanceof ContextMenuSubmenu) {
         prevItem.closeSubmenu();
@@ -296,72 +649,137 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
       }
     }
 
-    if (index >= 0 && index < this._items.length) {
+    if (index >= 0 && index < this.flatItems.length) {
       this._focusedIndex = index;
-      const item = this._items[this._focusedIndex];
+      const item = this.flatItems[this._focusedIndex];
       if (isFocusable(item)) {
         item.focus();
       }
+      this._scrollItemIntoView(item);
     } else {
       this._focusedIndex = -1;
     }
   }
 
+  /**
+   * Scrolls the menu so an item is fully visible and not covered by a scroll indicator.
+   */
+  private _scrollItemIntoView(item: MenuItem): void {
+    const menu = this._menuEl;
+    const li = item.element;
+    if (!menu || !li || menu.scrollHeight <= menu.clientHeight) return;
+
+    const inset = this._scrollUpEl?.offsetHeight ?? 0;
+    const itemTop = li.offsetTop;
+    const itemBottom = itemTop + li.offsetHeight;
+
+    if (itemTop < menu.scrollTop + inset) {
+      menu.scrollTop = itemTop - inset;
+    } else if (itemBottom > menu.scrollTop + menu.clientHeight - inset) {
+      menu.scrollTop = itemBottom - menu.clientHeight + inset;
+    }
+  }
+
   private _handleKeydown(ev: KeyboardEvent): void {
     if (!this._menuEl || !this._menuEl.classList.contains(styles.visible)) {
       return;
     }
 
+    // Already handled, e.g. as a keyboard accelerator
+    if (ev.defaultPrevented) {
+      return;
+    }
+
     // Only handle keys if focus is within this menu
     if (!this._menuEl.contains(document.activeElement)) {
       return;
     }
 
-    const len = this._items.length;
+    const len = this.flatItems.length;
     if (len === 0) return;
 
+    const editing = isEditableElement(ev.target);
+    if (editing) {
+      const li = (ev.target as HTMLElement).closest("li");
+      const index = li ? this._findItemIndexByLiEl(li) : -1;
+
+      // Focus moved into the control without going through _focusItem
+      const prevItem = this.flatItems[this._focusedIndex];
+      if (index !== this._focusedIndex && prevItem) {
+        if (prevItem instanceof ContextMenuSubmenu) {
+          prevItem.closeSubmenu();
+        }
+        if (isFocusable(prevItem)) {
+          prevItem.blur();
+        }
+      }
+      this._focusedIndex = index;
+    }
+
+    const focused = this.flatItems[this._focusedIndex];
+
+    // Custom items keep Enter and Space for their controls, and any keys they claim
+    if (
+      focused instanceof ContextMenuCustomItem &&
+      (ev.key === "Enter" || ev.key === " " || focused.claimsKey(ev))
+    ) {
+      return;
+    }
+
+    // Text inputs such as the search item keep all keys but those that leave them
+    if (editing) {
+      if (ev.key === "Enter" && focused instanceof ContextMenuSearch) {
+        ev.preventDefault();
+        this._activateFirstMatch();
+        return;
+      }
+      // At the start of the search text, ArrowLeft leaves a submenu as it does from items
+      const input = ev.target as HTMLInputElement;
+      const leavesSearch =
+        ev.key === "ArrowLeft" &&
+        focused instanceof ContextMenuSearch &&
+        input.selectionStart === 0 &&
+        input.selectionEnd === 0;
+      if (ev.key !== "ArrowDown" && ev.key !== "ArrowUp" && !leavesSearch) {
+        return;
+      }
+    }
+
     let newIndex = this._focusedIndex;
-    let originalIndex = this._focusedIndex;
 
     switch (ev.key) {
       case "ArrowDown":
         ev.preventDefault();
-
-        newIndex = this._focusedIndex === -1 ? 0 : this._focusedIndex + 1;
-
-        while (newIndex < len) {
-          if (this._isFocusable(this._items[newIndex])) {
-            break;
-          }
-          newIndex++;
-        }
-
-        if (newIndex >= len) {
-          newIndex = originalIndex;
-        }
+        newIndex = this._findFocusableIndex(
+          this._focusedIndex,
+          1,
+          this._wrapFocus
+        );
         break;
 
       case "ArrowUp":
         ev.preventDefault();
+        newIndex = this._findFocusableIndex(
+          this._focusedIndex === -1 ? len : this._focusedIndex,
+          -1,
+          this._wrapFocus
+        );
+        break;
 
-        newIndex = this._focusedIndex - 1;
-
-        while (newIndex >= 0) {
-          if (this._isFocusable(this._items[newIndex])) {
-            break;
-          }
-          newIndex--;
-        }
+      case "Home":
+        ev.preventDefault();
+        newIndex = this._findFocusableIndex(-1, 1, false);
+        break;
 
-        if (newIndex < 0) {
-          newIndex = originalIndex;
-        }
+      case "End":
+        ev.preventDefault();
+        newIndex = this._findFocusableIndex(len, -1, false);
         break;
 
       case "ArrowRight":
         if (this._focusedIndex !== -1) {
-          const item = this._items[this._focusedIndex];
-          if (item instanceof ContextMenuSubmenu) {
+          const item = this.flatItems[this._focusedIndex];
+          if (item instanceof ContextMenuSubmenu && !item.disabled) {
             item.openAndFocusSubmenu();
             ev.preventDefault();
             return;
@@ -372,17 +790,7 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
       case "Enter":
       case " ":
         if (this._focusedIndex !== -1) {
-          const item = this._items[this._focusedIndex];
-          // For submenus, open and focus instead of clicking
-          if (item instanceof ContextMenuSubmenu) {
-            item.openAndFocusSubmenu();
-            ev.preventDefault();
-            return;
-          }
-          if (item instanceof ContextMenuItem && item.listens("click")) {
-            item.click();
-            this.hide();
-          }
+          this._activateItem(this.flatItems[this._focusedIndex]);
         }
         ev.preventDefault();
         return;
@@ -396,23 +804,220 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
         return;
 
       default:
+        if (ev.key.length === 1 && !ev.ctrlKey && !ev.metaKey && !ev.altKey) {
+          // Typing goes into the search item, if there is one
+          const searchIndex = this.flatItems.findIndex(
+            (item) => item instanceof ContextMenuSearch
+          );
+          if (searchIndex !== -1) {
+            this._focusItem(searchIndex);
+            return;
+          }
+
+          ev.preventDefault();
+          newIndex = this._findTypeaheadIndex(ev.key);
+          break;
+        }
         return;
     }
 
-    if (newIndex !== this._focusedIndex && newIndex !== originalIndex) {
+    if (newIndex !== -1 && newIndex !== this._focusedIndex) {
       this._focusItem(newIndex);
     }
   }
 
+  /**
+   * Activates an item as Enter or Space would. Submenus open with their first item
+   * focused instead.
+   */
+  private _activateItem(item: MenuItem): void {
+    // Disabled items can have focus to show why they are disabled
+    if (item instanceof ContextMenuItem && item.disabled) {
+      return;
+    }
+
+    if (item instanceof ContextMenuSubmenu) {
+      item.openAndFocusSubmenu();
+      return;
+    }
+    if (item instanceof ContextMenuItem && item.activatable) {
+      item.click();
+      if (!item.keepsMenuOpen) {
+        this.hide();
+      }
+    }
+  }
+
+  /**
+   * Activates the first item matching the search, as Enter does in the search input.
+   */
+  private _activateFirstMatch(): void {
+    if (!this._findSearch()?.value.trim()) return;
+
+    const index = this.flatItems.findIndex(
+      (item) =>
+        item instanceof ContextMenuItem &&
+        this._isFocusable(item) &&
+        !item.disabled
+    );
+    if (index !== -1) {
+      this._focusItem(index);
+      this._activateItem(this.flatItems[index]);
+    }
+  }
+
+  /**
+   * Finds the next focusable item in the given direction, skipping hidden items,
+   * disabled items without a disabled reason, labels and separators.
+   * @returns The index of the item, or -1 if there is none.
+   */
+  private _findFocusableIndex(
+    from: number,
+    step: 1 | -1,
+    wrap: boolean
+  ): number {
+    const items = this.flatItems;
+    const len = items.length;
+    let index = from;
+
+    for (let i = 0; i < len; i++) {
+      index += step;
+      if (index < 0 || index >= len) {
+        if (!wrap) return -1;
+        index = (index + len) % len;
+      }
+      if (this._isFocusable(items[index])) {
+        return index;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Adds a typed character to the typeahead buffer and finds the next item whose
+   * label starts with the buffer. Repeating the same character cycles through the
+   * items starting with it.
+   * @returns The index of the matching item, or -1 if there is none.
+   */
+  private _findTypeaheadIndex(char: string): number {
+    if (this._typeaheadTimeout !== null) {
+      clearTimeout(this._typeaheadTimeout);
+    }
+    this._typeaheadTimeout = window.setTimeout(() => {
+      this._typeaheadTimeout = null;
+      this._typeaheadBuffer = "";
+    }, TYPEAHEAD_RESET_DELAY);
+
+    this._typeaheadBuffer += char.toLowerCase();
+
+    const buffer = this._typeaheadBuffer;
+    const isRepeatedChar = buffer.split("").every((c) => c === buffer[0]);
+    const search = isRepeatedChar ? buffer[0] : buffer;
+
+    // A longer prefix may still match the focused item; a new search moves past it
+    const items = this.flatItems;
+    const len = items.length;
+    const start =
+      this._focusedIndex === -1
+        ? -1
+        : search.length > 1
+          ? this._focusedIndex - 1
+          : this._focusedIndex;
+
+    for (let i = 1; i <= len; i++) {
+      const index = (((start + i) % len) + len) % len;
+      const item = items[index];
+      if (
+        this._isFocusable(item) &&
+        item instanceof ContextMenuItem &&
+        item.label.trim().toLowerCase().startsWith(search)
+      ) {
+        return index;
+      }
+    }
+
+    return -1;
+  }
+
   private _isFocusable(
     item: MenuItem
-  ): item is ContextMenuItem | ContextMenuSubmenu {
+  ): item is
+    | ContextMenuItem
+    | ContextMenuSubmenu
+    | ContextMenuSearch
+    | ContextMenuCustomItem {
+    if (item instanceof ContextMenuSearch) return true;
+    if (item instanceof ContextMenuCustomItem) return item.isFocusable;
+
     return (
       (item instanceof ContextMenuItem || item instanceof ContextMenuSubmenu) &&
-      !item.disabled
+      (!item.disabled || item.focusableWhenDisabled) &&
+      !item.hidden &&
+      !item.filtered
     );
   }
 
+  /**
+   * Hides separators that would otherwise appear at either end of the menu or
+   * next to each other once hidden items are taken out. While searching, labels
+   * are also hidden unless an item in their section matches. Groups without
+   * visible items are hidden as a whole.
+   * @returns Whether any of the items are visible.
+   */
+  private _collapseSeparators(
+    items: readonly MenuItem[],
+    filtering: boolean
+  ): boolean {
+    let pending: ContextMenuSeparator | null = null;
+    let pendingLabel: ContextMenuLabel | null = null;
+    let hasVisibleItem = false;
+
+    for (const item of items) {
+      let visible: boolean;
+
+      if (item instanceof ContextMenuSeparator) {
+        item.collapsed = true;
+        pendingLabel = null;
+        if (hasVisibleItem && !pending) {
+          pending = item;
+        }
+        continue;
+      } else if (item instanceof ContextMenuLabel) {
+        item.collapsed = filtering;
+        if (filtering) {
+          pendingLabel = item;
+          continue;
+        }
+        visible = true;
+      } else if (item instanceof ContextMenuGroup) {
+        visible =
+          !item.hidden && this._collapseSeparators(item.items, filtering);
+        item.collapsed = !visible;
+      } else if (item instanceof ContextMenuItem) {
+        visible = !item.hidden && !item.filtered;
+      } else if (item instanceof ContextMenuCustomItem) {
+        visible = !item.hidden;
+      } else {
+        visible = true;
+      }
+
+      if (visible) {
+        if (pending) {
+          pending.collapsed = false;
+          pending = null;
+        }
+        if (pendingLabel) {
+          pendingLabel.collapsed = false;
+          pendingLabel = null;
+        }
+        hasVisibleItem = true;
+      }
+    }
+
+    return hasVisibleItem;
+  }
+
   private _setupUI(): void {
     if (!this._container) return;
 
@@ -438,15 +1043,85 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     ) as EventListener;
     menu.addEventListener("mouseleave", this._handlers.mouseleave);
 
+    this._handlers.contextmenu = this._handleContextmenu.bind(
+      this
+    ) as EventListener;
+    menu.addEventListener("contextmenu", this._handlers.contextmenu);
+
+    this._handlers.scroll = this._updateScrollIndicators.bind(this);
+    menu.addEventListener("scroll", this._handlers.scroll);
+
+    this._scrollUpEl = this._createScrollIndicator(-1);
+    this._scrollDownEl = this._createScrollIndicator(1);
+    menu.append(this._scrollUpEl, this._scrollDownEl);
+
     this._container.appendChild(menu);
 
     this._menuEl = menu;
 
     this._applyClassName();
     this._updateWidth();
+    this._updateMaxHeight();
     this._updateTheme();
   }
 
+  /**
+   * Creates an indicator shown at the top or bottom edge while the menu can scroll
+   * further in that direction. Resting the pointer on it scrolls the menu.
+   */
+  private _createScrollIndicator(direction: 1 | -1): HTMLElement {
+    const indicator = createElement("li", {
+      role: "none",
+      "aria-hidden": "true",
+      class: `${styles.scrollIndicator} ${direction === -1 ? styles.scrollUp : styles.scrollDown}`
+    });
+    indicator.addEventListener("mouseenter", () => {
+      this._startAutoScroll(direction);
+    });
+    indicator.addEventListener("mouseleave", () => {
+      this._stopAutoScroll();
+    });
+    return indicator;
+  }
+
+  private _startAutoScroll(direction: 1 | -1): void {
+    this._stopAutoScroll();
+
+    const step = () => {
+      if (!this._menuEl) return;
+      this._menuEl.scrollTop += direction * AUTO_SCROLL_STEP;
+      this._autoScrollFrame = requestAnimationFrame(step);
+    };
+    this._autoScrollFrame = requestAnimationFrame(step);
+  }
+
+  private _stopAutoScroll(): void {
+    if (this._autoScrollFrame !== null) {
+      cancelAnimationFrame(this._autoScrollFrame);
+      this._autoScrollFrame = null;
+    }
+  }
+
+  private _updateScrollIndicators(): void {
+    if (!this._menuEl || !this._scrollUpEl || !this._scrollDownEl) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = this._menuEl;
+    const canScrollUp = scrollTop > 0;
+    const canScrollDown = scrollTop + clientHeight < scrollHeight - 1;
+
+    this._scrollUpEl.classList.toggle(styles.scrollable, canScrollUp);
+    this._scrollDownEl.classList.toggle(styles.scrollable, canScrollDown);
+
+    // The indicator disappears under the pointer once the end is reached
+    if (
+      this._autoScrollFrame !== null &&
+      !(canScrollUp && this._scrollUpEl.matches(":hover")) &&
+      !(canScrollDown && this._scrollDownEl.matches(":hover"))
+    ) {
+      this._stopAutoScroll();
+    }
+  }
+
   private _applyClassName(): void {
     if (!this._menuEl) return;
     this._menuEl.className = this._className;
@@ -463,6 +1138,23 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     }
   }
 
+  private _updateMaxHeight(): void {
+    if (!this._menuEl) return;
+
+    const containerHeight = this._container?.clientHeight;
+    const maxHeight = this._maxHeight;
+
+    if (containerHeight === undefined) {
+      this._menuEl.style.maxHeight = "";
+    } else if (maxHeight === undefined) {
+      this._menuEl.style.maxHeight = `${containerHeight}px`;
+    } else if (typeof maxHeight === "number") {
+      this._menuEl.style.maxHeight = `${Math.min(maxHeight, containerHeight)}px`;
+    } else {
+      this._menuEl.style.maxHeight = `min(${maxHeight}, ${containerHeight}px)`;
+    }
+  }
+
   private _updateTheme(): void {
     if (!this._menuEl) return;
 
@@ -479,6 +1171,10 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
       item.remove();
     });
     this._items = [];
+    this._providedItems = [];
+    this._providedContext = null;
+    this._providedLoaded = false;
+    this._providerRequest++;
   }
 
   protected _removeEventListeners(): void {
@@ -497,10 +1193,38 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     }
   }
 
-  private _handleClick(): void {
+  private _handleClick(ev: MouseEvent): void {
+    const li = (ev.target as HTMLElement).closest("li");
+
+    if (li === this._scrollUpEl || li === this._scrollDownEl) {
+      return;
+    }
+
+    const item = li ? this.flatItems[this._findItemIndexByLiEl(li)] : undefined;
+
+    if (item instanceof ContextMenuCustomItem) {
+      if (item.closesMenuOnClick(ev)) {
+        this.hide();
+      }
+      return;
+    }
+
+    if (
+      item instanceof ContextMenuSearch ||
+      (item instanceof ContextMenuItem && (item.keepsMenuOpen || item.disabled))
+    ) {
+      return;
+    }
+
     this.hide();
   }
 
+  private _handleContextmenu(ev: MouseEvent): void {
+    // Keep the browser's own menu from opening on top of this one, e.g. when
+    // the ContextMenu key is released while focus is inside the menu
+    ev.preventDefault();
+  }
+
   private _handleFocusin(ev: FocusEvent): void {
     const target = ev.target as HTMLElement;
     const li = target.closest("li");
@@ -508,8 +1232,8 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
       const index = this._findItemIndexByLiEl(li);
       if (index !== -1 && index !== this._focusedIndex) {
         // Blur previous item without calling focus on new (it's already focused)
-        if (this._focusedIndex !== -1 && this._items[this._focusedIndex]) {
-          const prevItem = this._items[this._focusedIndex];
+        if (this._focusedIndex !== -1 && this.flatItems[this._focusedIndex]) {
+          const prevItem = this.flatItems[this._focusedIndex];
           if (isFocusable(prevItem)) {
             prevItem.blur();
           }
@@ -525,14 +1249,43 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
     if (li) {
       const index = this._findItemIndexByLiEl(li);
       if (index !== -1 && index !== this._focusedIndex) {
-        this._focusItem(index);
+        this._focusHoveredItem(index, li);
       }
     }
   }
 
+  /**
+   * Focuses a hovered item, unless the pointer is only crossing it on its way
+   * to the open submenu of the focused item. In that case the hover is checked
+   * again shortly, once the pointer has reached the submenu or stopped moving.
+   */
+  private _focusHoveredItem(index: number, li: Element): void {
+    this._cancelHoverIntent();
+
+    const focused = this.flatItems[this._focusedIndex];
+    if (focused instanceof ContextMenuSubmenu && focused.isAimingAtSubmenu()) {
+      this._hoverIntentTimeout = window.setTimeout(() => {
+        this._hoverIntentTimeout = null;
+        if (li.matches(":hover") && index !== this._focusedIndex) {
+          this._focusHoveredItem(index, li);
+        }
+      }, HOVER_INTENT_DELAY);
+      return;
+    }
+
+    this._focusItem(index);
+  }
+
+  private _cancelHoverIntent(): void {
+    if (this._hoverIntentTimeout !== null) {
+      clearTimeout(this._hoverIntentTimeout);
+      this._hoverIntentTimeout = null;
+    }
+  }
+
   private _handleMouseleave(): void {
-    if (this._focusedIndex !== -1 && this._items[this._focusedIndex]) {
-      const item = this._items[this._focusedIndex];
+    if (this._focusedIndex !== -1 && this.flatItems[this._focusedIndex]) {
+      const item = this.flatItems[this._focusedIndex];
       if (isFocusable(item)) {
         item.blur();
       }
@@ -543,7 +1296,7 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
   private _focusItemUnderMouse(): void {
     if (!this._menuEl) return;
 
-    const hoveredButton = this._menuEl.querySelector("button:hover");
+    const hoveredButton = this._menuEl.querySelector("button:hover, a:hover");
     if (hoveredButton) {
       const li = hoveredButton.closest("li");
       if (li) {
@@ -556,12 +1309,7 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
   }
 
   private _findItemIndexByLiEl(li: Element): number {
-    return this._items.findIndex((item) => {
-      if ("_liEl" in item) {
-        return (item as unknown as { _liEl: HTMLElement | null })._liEl === li;
-      }
-      return false;
-    });
+    return this.flatItems.findIndex((item) => item.element === li);
   }
 
   private _positionInViewport(
@@ -572,29 +1320,18 @@ export default class ContextMenu extends Evented<ContextMenuEvents> {
       return { left: x, top: y };
     }
 
-    const containerWidth = this._container.clientWidth;
-    const containerHeight = this._container.clientHeight;
-
     // Ensure menu has been made visible so offsetWidth/Height are accurate
     // eslint-disable-next-line @typescript-eslint/no-unused-expressions
     this._menuEl.offsetWidth;
 
-    const menuWidth = this._menuEl.offsetWidth;
-    const menuHeight = this._menuEl.offsetHeight;
-
-    let left = x;
-    let top = y;
-
-    if (left + menuWidth > containerWidth) {
-      left = containerWidth - menuWidth;
-    }
-    if (top + menuHeight > containerHeight) {
-      top = containerHeight - menuHeight;
-    }
-
-    if (left < 0) left = 0;
-    if (top < 0) top = 0;
-
-    return { left, top };
+    return fitInContainer(
+      x,
+      y,
+      { width: this._menuEl.offsetWidth, height: this._menuEl.offsetHeight },
+      {
+        width: this._container.clientWidth,
+        height: this._container.clientHeight
+      }
+    );
   }
 }
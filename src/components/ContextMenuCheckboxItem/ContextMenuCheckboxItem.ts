@@ -0,0 +1,139 @@
+import type {
+  ContextMenuCheckboxItemEvent,
+  ContextMenuContext
+} from "../../types";
+import ContextMenuItem, {
+  type ContextMenuItemEvents,
+  type ContextMenuItemOptions
+} from "../ContextMenuItem/ContextMenuItem";
+import styles from "./ContextMenuCheckboxItem.module.scss";
+
+interface ContextMenuCheckboxItemEvents extends ContextMenuItemEvents {
+  change: ContextMenuCheckboxItemEvent;
+}
+
+/**
+ * Configuration options for creating a checkbox menu item.
+ * Extends {@link ContextMenuItemOptions} with the checked state.
+ */
+export interface ContextMenuCheckboxItemOptions extends ContextMenuItemOptions {
+  /** Whether the item is checked. Defaults to `false`. */
+  checked?: boolean;
+  /** Whether the menu stays open after the item is toggled. Defaults to `false`. */
+  keepOpen?: boolean;
+}
+
+/**
+ * A menu item that toggles a checked state, shown with a check indicator.
+ *
+ * Checkbox items fire a "change" event with the new checked state when toggled,
+ * in addition to the "click" event fired by all menu items.
+ *
+ * @example
+ * ```ts
+ * const labelsItem = new ContextMenuCheckboxItem({
+ *   label: "Show labels",
+ *   checked: true,
+ *   keepOpen: true
+ * });
+ *
+ * labelsItem.on("change", ({ map, checked }) => {
+ *   map.setLayoutProperty("labels", "visibility", checked ? "visible" : "none");
+ * });
+ *
+ * menu.addItem(labelsItem);
+ * ```
+ */
+export default class ContextMenuCheckboxItem extends ContextMenuItem<ContextMenuCheckboxItemEvents> {
+  private _checked: boolean;
+  private _keepOpen: boolean;
+  private _checkEl: HTMLSpanElement | null = null;
+
+  /**
+   * Creates a new checkbox menu item.
+   * @param options - Configuration options for the checkbox item.
+   * @param options.label - The text label to display.
+   * @param options.checked - Whether the item is checked. Defaults to `false`.
+   * @param options.keepOpen - Whether the menu stays open after the item is toggled. Defaults to `false`.
+   * @param options.start - Content to display before the label (e.g., an icon element).
+   * @param options.end - Content to display after the label.
+   * @param options.disabled - Whether the item is disabled. Defaults to `false`.
+   * @param options.className - Custom CSS class name for the `<li>` element.
+   * @param options.buttonClassName - Custom CSS class name for the `<button>` element.
+   */
+  constructor(options: ContextMenuCheckboxItemOptions) {
+    super(options);
+    this._checked = options.checked ?? false;
+    this._keepOpen = options.keepOpen ?? false;
+  }
+
+  /**
+   * Gets whether the item is checked.
+   * @returns `true` if the item is checked, `false` otherwise.
+   */
+  get checked(): boolean {
+    return this._checked;
+  }
+
+  /**
+   * Sets whether the item is checked. Does not fire the "change" event.
+   * @param value - `true` to check the item, `false` to uncheck it.
+   */
+  set checked(value: boolean) {
+    this._checked = value;
+    this._buttonEl?.setAttribute("aria-checked", String(value));
+  }
+
+  /**
+   * @internal
+   */
+  get activatable(): boolean {
+    return true;
+  }
+
+  /**
+   * @internal
+   */
+  get keepsMenuOpen(): boolean {
+    return this._keepOpen || super.keepsMenuOpen;
+  }
+
+  /**
+   * @internal
+   */
+  render(parent: HTMLElement, ctx: ContextMenuContext): HTMLElement {
+    const liEl = super.render(parent, ctx);
+
+    if (!this._checkEl && this._buttonEl) {
+      this._buttonEl.setAttribute("role", "menuitemcheckbox");
+      this._buttonEl.setAttribute("aria-checked", String(this._checked));
+
+      this._checkEl = document.createElement("span");
+      this._checkEl.className = styles.check;
+      this._buttonEl.prepend(this._checkEl);
+    }
+
+    return liEl;
+  }
+
+  remove(): this {
+    super.remove();
+    this._checkEl = null;
+    return this;
+  }
+
+  protected _activate(originalEvent: MouseEvent): void {
+    if (this._disabled || !this._currentCtx) return;
+
+    // Toggle before the "click" event fires so handlers see the new state
+    this.checked = !this._checked;
+    this.fire("change", {
+      type: "change",
+      target: this,
+      checked: this._checked,
+      ...this._createEventData(originalEvent)
+    });
+
+    super._activate(originalEvent);
+  }
+}
@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuCheckboxItem";
+export type { ContextMenuCheckboxItemOptions } from "./ContextMenuCheckboxItem";
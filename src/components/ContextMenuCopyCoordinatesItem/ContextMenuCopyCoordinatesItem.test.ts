@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ContextMenuContext, ContextMenuCopyEvent } from "../../types";
+import ContextMenuCopyCoordinatesItem from "./ContextMenuCopyCoordinatesItem";
+
+const ctx = {
+  map: {},
+  event: {
+    point: { x: 0, y: 0 },
+    lngLat: { lng: -79.982222, lat: 40.446111 }
+  }
+} as unknown as ContextMenuContext;
+
+function renderItem(item: ContextMenuCopyCoordinatesItem): HTMLElement {
+  return item.render(document.createElement("ul"), ctx);
+}
+
+describe("ContextMenuCopyCoordinatesItem", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shows the copied label without changing the item's label", async () => {
+    vi.useFakeTimers();
+    const item = new ContextMenuCopyCoordinatesItem({
+      clipboard: { writeText: () => Promise.resolve() }
+    });
+    const li = renderItem(item);
+    const copy = new Promise((resolve) => item.on("copy", resolve));
+
+    li.querySelector("button")!.click();
+    await copy;
+
+    expect(item.copied).toBe(true);
+    expect(li.textContent).toBe("Copied");
+    expect(item.label).toBe("Copy coordinates");
+
+    vi.advanceTimersByTime(1500);
+    expect(item.copied).toBe(false);
+    expect(li.textContent).toBe("Copy coordinates");
+  });
+
+  it("keeps the copied label shown when the label changes", async () => {
+    const item = new ContextMenuCopyCoordinatesItem({
+      clipboard: { writeText: () => Promise.resolve() }
+    });
+    const li = renderItem(item);
+    const copy = new Promise((resolve) => item.on("copy", resolve));
+
+    li.querySelector("button")!.click();
+    await copy;
+    item.label = "Copy location";
+
+    expect(item.label).toBe("Copy location");
+    expect(li.textContent).toBe("Copied");
+  });
+
+  it("writes to the clipboard during the click", () => {
+    const writeText = vi.fn(() => Promise.resolve());
+    const item = new ContextMenuCopyCoordinatesItem({
+      format: "dms",
+      clipboard: { writeText }
+    });
+
+    renderItem(item).querySelector("button")!.click();
+
+    expect(writeText).toHaveBeenCalledWith(`40°26'46.0"N 79°58'56.0"W`);
+  });
+
+  it("fires an error event when the clipboard rejects the text", async () => {
+    const failure = new Error("Not allowed");
+    const item = new ContextMenuCopyCoordinatesItem({
+      clipboard: { writeText: () => Promise.reject(failure) }
+    });
+    const li = renderItem(item);
+    const error = new Promise<ContextMenuCopyEvent>((resolve) =>
+      item.on("error", resolve)
+    );
+
+    li.querySelector("button")!.click();
+
+    expect(await error).toMatchObject({
+      type: "error",
+      text: "40.446111, -79.982222",
+      format: "decimal",
+      error: failure
+    });
+    expect(item.copied).toBe(false);
+  });
+
+  it("fires an error event when the location can't be formatted", async () => {
+    const writeText = vi.fn(() => Promise.resolve());
+    const item = new ContextMenuCopyCoordinatesItem({
+      format: "utm",
+      clipboard: { writeText }
+    });
+    const polar = {
+      ...ctx,
+      event: { ...ctx.event, lngLat: { lng: 0, lat: 89 } }
+    } as ContextMenuContext;
+    const li = item.render(document.createElement("ul"), polar);
+    const error = new Promise<ContextMenuCopyEvent>((resolve) =>
+      item.on("error", resolve)
+    );
+
+    li.querySelector("button")!.click();
+
+    expect((await error).error).toBeInstanceOf(RangeError);
+    expect(writeText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,297 @@
+import type {
+  ContextMenuContext,
+  ContextMenuCopyEvent,
+  ContextValue
+} from "../../types";
+import {
+  formatCoordinates,
+  type ClipboardWriter,
+  type CoordinateFormat
+} from "../../util/coordinates";
+import ContextMenuItem, {
+  type ContextMenuItemEvents,
+  type ContextMenuItemOptions
+} from "../ContextMenuItem/ContextMenuItem";
+
+interface ContextMenuCopyCoordinatesItemEvents extends ContextMenuItemEvents {
+  copy: ContextMenuCopyEvent;
+  error: ContextMenuCopyEvent;
+}
+
+/** Label shown before the coordinates are copied */
+const DEFAULT_LABEL = "Copy coordinates";
+
+/** Label shown once the coordinates are on the clipboard */
+const DEFAULT_COPIED_LABEL = "Copied";
+
+/** Time the copied label is shown for (in milliseconds) */
+const DEFAULT_COPIED_DURATION = 1500;
+
+/**
+ * Configuration options for creating a copy coordinates menu item.
+ * Extends {@link ContextMenuItemOptions} with how the coordinates are formatted and copied.
+ */
+export interface ContextMenuCopyCoordinatesItemOptions extends Omit<
+  ContextMenuItemOptions,
+  "label"
+> {
+  /** The text label to display. Defaults to "Copy coordinates". */
+  label?: ContextValue<string>;
+  /** How to write the coordinates. Defaults to `"decimal"`. */
+  format?: CoordinateFormat;
+  /** How precise the coordinates are. What it counts depends on the format, see {@link CoordinateFormatOptions}. */
+  precision?: number;
+  /** Whether decimal degrees start with the latitude or the longitude. Defaults to `"latlng"`. */
+  order?: "latlng" | "lnglat";
+  /** Where to write the coordinates. Defaults to `navigator.clipboard`. */
+  clipboard?: ClipboardWriter;
+  /** The label shown once the coordinates are copied. Defaults to "Copied". */
+  copiedLabel?: string;
+  /** How long, in milliseconds, the copied label is shown. Defaults to 1500. */
+  copiedDuration?: number;
+  /** Whether the menu stays open after the item is clicked, to show the copied label. Defaults to `true`. */
+  keepOpen?: boolean;
+}
+
+/**
+ * A menu item that copies the coordinates the menu was opened at to the clipboard,
+ * then briefly shows a "Copied" label.
+ *
+ * Copy coordinates items fire a "copy" event with the copied text once it is on
+ * the clipboard, or an "error" event if it couldn't be written, in addition to
+ * the "click" event fired by all menu items.
+ *
+ * @example
+ * ```ts
+ * menu.addItem(new ContextMenuCopyCoordinatesItem({ format: "dms" }));
+ * ```
+ *
+ * @example
+ * ```ts
+ * const copyAs = new ContextMenuSubmenu({ label: "Copy coordinates as" });
+ * copyAs.addItem(new ContextMenuCopyCoordinatesItem({ label: "Decimal", precision: 5 }));
+ * copyAs.addItem(new ContextMenuCopyCoordinatesItem({ label: "MGRS", format: "mgrs" }));
+ * copyAs.addItem(new ContextMenuCopyCoordinatesItem({ label: "Plus code", format: "olc" }));
+ * ```
+ */
+export default class ContextMenuCopyCoordinatesItem extends ContextMenuItem<ContextMenuCopyCoordinatesItemEvents> {
+  private _format: CoordinateFormat;
+  private _precision: number | undefined;
+  private _order: "latlng" | "lnglat" | undefined;
+  private _clipboard: ClipboardWriter | undefined;
+  private _copiedLabel: string;
+  private _copiedDuration: number;
+  private _keepOpen: boolean;
+  private _copied: boolean = false;
+  private _copiedTimeout: number | null = null;
+
+  /**
+   * Creates a new copy coordinates menu item.
+   * @param options - Configuration options for the copy coordinates item.
+   * @param options.label - The text label to display. Defaults to "Copy coordinates".
+   * @param options.format - How to write the coordinates. Defaults to `"decimal"`.
+   * @param options.precision - How precise the coordinates are.
+   * @param options.order - Whether decimal degrees start with the latitude or the longitude. Defaults to `"latlng"`.
+   * @param options.clipboard - Where to write the coordinates. Defaults to `navigator.clipboard`.
+   * @param options.copiedLabel - The label shown once the coordinates are copied. Defaults to "Copied".
+   * @param options.copiedDuration - How long, in milliseconds, the copied label is shown. Defaults to 1500.
+   * @param options.keepOpen - Whether the menu stays open after the item is clicked. Defaults to `true`.
+   * @param options.start - Content to display before the label (e.g., an icon element).
+   * @param options.end - Content to display after the label.
+   * @param options.disabled - Whether the item is disabled. Defaults to `false`.
+   * @param options.className - Custom CSS class name for the `<li>` element.
+   * @param options.buttonClassName - Custom CSS class name for the `<button>` element.
+   */
+  constructor(options?: ContextMenuCopyCoordinatesItemOptions) {
+    const label = options?.label ?? DEFAULT_LABEL;
+    super({ ...options, label });
+    this._format = options?.format ?? "decimal";
+    this._precision = options?.precision;
+    this._order = options?.order;
+    this._clipboard = options?.clipboard;
+    this._copiedLabel = options?.copiedLabel ?? DEFAULT_COPIED_LABEL;
+    this._copiedDuration = options?.copiedDuration ?? DEFAULT_COPIED_DURATION;
+    this._keepOpen = options?.keepOpen ?? true;
+  }
+
+  /**
+   * Gets the label text of the menu item.
+   * @returns The current label text. It stays the same while the copied label is shown.
+   */
+  get label(): string {
+    return super.label;
+  }
+
+  /**
+   * Sets the label text of the menu item.
+   * @param value - The new label text to display, or a function returning it for the current context.
+   */
+  set label(value: ContextValue<string>) {
+    super.label = value;
+    // Keep showing the copied label until it times out
+    if (this._copied && this._labelEl) {
+      this._labelEl.textContent = this._copiedLabel;
+    }
+  }
+
+  /**
+   * Gets how the coordinates are written.
+   * @returns The coordinate format.
+   */
+  get format(): CoordinateFormat {
+    return this._format;
+  }
+
+  /**
+   * Sets how the coordinates are written.
+   * @param value - The coordinate format.
+   */
+  set format(value: CoordinateFormat) {
+    this._format = value;
+  }
+
+  /**
+   * Gets how precise the coordinates are.
+   * @returns The precision, or `undefined` for the format's default.
+   */
+  get precision(): number | undefined {
+    return this._precision;
+  }
+
+  /**
+   * Sets how precise the coordinates are.
+   * @param value - The precision, or `undefined` for the format's default.
+   */
+  set precision(value: number | undefined) {
+    this._precision = value;
+  }
+
+  /**
+   * Gets whether the copied label is shown.
+   * @returns `true` from when the coordinates are copied until the copied label is hidden.
+   */
+  get copied(): boolean {
+    return this._copied;
+  }
+
+  /**
+   * @internal
+   */
+  get activatable(): boolean {
+    return true;
+  }
+
+  /**
+   * @internal
+   */
+  get keepsMenuOpen(): boolean {
+    return this._keepOpen || super.keepsMenuOpen;
+  }
+
+  /**
+   * @internal
+   */
+  render(parent: HTMLElement, ctx: ContextMenuContext): HTMLElement {
+    this._resetCopied();
+    const liEl = super.render(parent, ctx);
+
+    // Announce the copied label, which replaces the label while the item has focus
+    this._labelEl?.setAttribute("aria-live", "polite");
+
+    return liEl;
+  }
+
+  remove(): this {
+    this._resetCopied();
+    super.remove();
+    return this;
+  }
+
+  /**
+   * Formats the coordinates for the current context.
+   * @throws {RangeError} If the location can't be written in the item's format.
+   */
+  private _formatText(lngLat: { lng: number; lat: number }): string {
+    return formatCoordinates(lngLat, this._format, {
+      precision: this._precision,
+      order: this._order
+    });
+  }
+
+  private _showCopied(): void {
+    this._resetCopied();
+
+    // Only the shown text changes, so search and typeahead still match the label
+    if (this._labelEl) {
+      this._labelEl.textContent = this._copiedLabel;
+    }
+    this._copied = true;
+
+    this._copiedTimeout = window.setTimeout(() => {
+      this._copiedTimeout = null;
+      this._resetCopied();
+    }, this._copiedDuration);
+  }
+
+  private _resetCopied(): void {
+    if (this._copiedTimeout !== null) {
+      clearTimeout(this._copiedTimeout);
+      this._copiedTimeout = null;
+    }
+
+    if (!this._copied) return;
+
+    this._copied = false;
+    if (this._labelEl) {
+      this._labelEl.textContent = super.label;
+    }
+  }
+
+  protected _activate(originalEvent: MouseEvent): void {
+    if (this._disabled || !this._currentCtx) return;
+
+    const data = this._createEventData(originalEvent);
+    const format = this._format;
+    let text = "";
+    let written: Promise<void>;
+
+    // Write during the click, as some browsers, e.g. Safari, only allow clipboard
+    // access while handling the user's gesture
+    try {
+      text = this._formatText(data.lngLat);
+      // navigator.clipboard is missing outside secure contexts
+      const clipboard = this._clipboard ?? navigator.clipboard;
+      if (!clipboard) {
+        throw new Error("The clipboard is not available in this context");
+      }
+      written = clipboard.writeText(text);
+    } catch (error) {
+      written = Promise.reject(error);
+    }
+
+    written.then(
+      () => {
+        this._showCopied();
+        this.fire("copy", {
+          type: "copy",
+          target: this,
+          text,
+          format,
+          ...data
+        });
+      },
+      (error: unknown) => {
+        this.fire("error", {
+          type: "error",
+          target: this,
+          text,
+          format,
+          error,
+          ...data
+        });
+      }
+    );
+
+    super._activate(originalEvent);
+  }
+}
@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuCopyCoordinatesItem";
+export type { ContextMenuCopyCoordinatesItemOptions } from "./ContextMenuCopyCoordinatesItem";
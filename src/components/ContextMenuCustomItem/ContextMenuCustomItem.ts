@@ -0,0 +1,304 @@
+import type { ContextMenuContext, ContextValue, Focusable } from "../../types";
+import { resolveContextValue } from "../../util/context";
+import { createElement } from "../../util/dom";
+import { Evented } from "../../util/evented";
+import styles from "./ContextMenuCustomItem.module.scss";
+
+/** Elements inside the item's content that can receive focus */
+const FOCUSABLE_SELECTOR = [
+  "button:not(:disabled)",
+  "input:not(:disabled)",
+  "select:not(:disabled)",
+  "textarea:not(:disabled)",
+  "a[href]",
+  '[tabindex]:not([tabindex="-1"])'
+].join(", ");
+
+/**
+ * Configuration options for custom menu items.
+ */
+export interface ContextMenuCustomItemOptions {
+  /** Whether the item is disabled. Defaults to `false`. */
+  disabled?: ContextValue<boolean>;
+  /** Whether the item is hidden. Defaults to `false`. */
+  hidden?: ContextValue<boolean>;
+  /** Custom CSS class name for the `<li>` element. */
+  className?: string;
+}
+
+/**
+ * Base class for menu items that host their own interactive content, such as
+ * sliders, pickers or rows of swatches.
+ *
+ * Subclasses build their content in `_createContent`, which is called the first
+ * time the item is rendered, and can refresh it for each context in `_update`.
+ * The item takes part in keyboard navigation: focusing it focuses the first
+ * control in its content. Enter and Space are left to the content, and other
+ * keys can be kept from the menu with `claimsKey`. Clicking inside the item
+ * doesn't close the menu unless `closesMenuOnClick` says so.
+ *
+ * @example
+ * ```ts
+ * class OpacitySlider extends ContextMenuCustomItem {
+ *   protected _createContent({ map }: ContextMenuContext): HTMLElement {
+ *     const input = document.createElement("input");
+ *     input.type = "range";
+ *     input.max = "1";
+ *     input.step = "0.1";
+ *     input.value = String(map.getPaintProperty("buildings", "fill-opacity"));
+ *     input.addEventListener("input", () => {
+ *       map.setPaintProperty("buildings", "fill-opacity", Number(input.value));
+ *     });
+ *     return input;
+ *   }
+ *
+ *   claimsKey(ev: KeyboardEvent): boolean {
+ *     return ev.key === "ArrowLeft" || ev.key === "ArrowRight";
+ *   }
+ * }
+ *
+ * menu.addItem(new OpacitySlider());
+ * ```
+ */
+export default abstract class ContextMenuCustomItem<
+  Events extends Record<string, unknown> = Record<string, unknown>
+>
+  extends Evented<Events>
+  implements Focusable
+{
+  private _className: string;
+  private _disabledOption: ContextValue<boolean>;
+  private _hiddenOption: ContextValue<boolean>;
+
+  protected _disabled: boolean = false;
+  protected _hidden: boolean = false;
+  private _inheritedDisabled: boolean = false;
+  private _inheritedHidden: boolean = false;
+  protected _currentCtx: ContextMenuContext | null = null;
+
+  protected _liEl: HTMLElement | null = null;
+  protected _contentEl: HTMLElement | null = null;
+
+  /**
+   * Creates a new custom item.
+   * @param options - Configuration options for the item.
+   * @param options.disabled - Whether the item is disabled. Defaults to `false`.
+   * @param options.hidden - Whether the item is hidden. Defaults to `false`.
+   * @param options.className - Custom CSS class name for the `<li>` element.
+   */
+  constructor(options?: ContextMenuCustomItemOptions) {
+    super();
+    this._className = options?.className
+      ? `${styles.customItem} ${options.className}`
+      : styles.customItem;
+    this._disabledOption = options?.disabled ?? false;
+    this._hiddenOption = options?.hidden ?? false;
+
+    this._updateDisabled();
+    this._updateHidden();
+  }
+
+  /**
+   * Gets whether the item is disabled.
+   * @returns `true` if the item is disabled, `false` otherwise.
+   */
+  get disabled(): boolean {
+    return this._disabled;
+  }
+
+  /**
+   * Sets whether the item is disabled. Disabled items are skipped by keyboard navigation.
+   * @param value - `true` to disable the item, `false` to enable it, or a function returning either for the current context.
+   */
+  set disabled(value: ContextValue<boolean>) {
+    this._disabledOption = value;
+    this._updateDisabled();
+  }
+
+  /**
+   * Gets whether the item is hidden.
+   * @returns `true` if the item is hidden, `false` otherwise.
+   */
+  get hidden(): boolean {
+    return this._hidden;
+  }
+
+  /**
+   * Sets whether the item is hidden. Hidden items are skipped by keyboard navigation.
+   * @param value - `true` to hide the item, `false` to show it, or a function returning either for the current context.
+   */
+  set hidden(value: ContextValue<boolean>) {
+    this._hiddenOption = value;
+    this._updateHidden();
+  }
+
+  /**
+   * Whether the item is disabled because its group is disabled.
+   * @internal
+   */
+  set inheritedDisabled(value: boolean) {
+    this._inheritedDisabled = value;
+    this._updateDisabled();
+  }
+
+  /**
+   * Whether the item is hidden because its group is hidden.
+   * @internal
+   */
+  set inheritedHidden(value: boolean) {
+    this._inheritedHidden = value;
+    this._updateHidden();
+  }
+
+  /**
+   * Whether keyboard navigation stops at the item. Override to return `false` for
+   * items without anything to interact with.
+   */
+  get isFocusable(): boolean {
+    return !this._disabled && !this._hidden;
+  }
+
+  /**
+   * Whether the item handles a key itself while it has focus, so the menu doesn't
+   * use it for navigation, e.g. arrow keys that move a slider. Enter and Space are
+   * always left to the item. Defaults to claiming no keys.
+   * @param _ev - The keydown event.
+   * @returns `true` to keep the key from the menu.
+   */
+  claimsKey(_ev: KeyboardEvent): boolean {
+    return false;
+  }
+
+  /**
+   * Whether a click inside the item closes the menu, e.g. a click on a button that
+   * performs an action. Defaults to keeping the menu open.
+   * @param _ev - The click event.
+   * @returns `true` to close the menu.
+   */
+  closesMenuOnClick(_ev: MouseEvent): boolean {
+    return false;
+  }
+
+  /**
+   * The item's `<li>` element, once it has been rendered.
+   * @internal
+   */
+  get element(): HTMLElement | null {
+    return this._liEl;
+  }
+
+  /**
+   * @internal
+   */
+  render(parent: HTMLElement, ctx: ContextMenuContext): HTMLElement {
+    this._currentCtx = ctx;
+
+    if (!this._liEl) {
+      this._setupUI(ctx);
+    }
+
+    this._updateDisabled();
+    this._updateHidden();
+    this._update(ctx);
+
+    const liEl = this._liEl!;
+    if (liEl.parentElement !== parent) {
+      parent.appendChild(liEl);
+    }
+
+    return liEl;
+  }
+
+  /**
+   * Focuses the first control in the item's content, adding the focused styling.
+   * Only works if the item is not `disabled`.
+   */
+  focus(): void {
+    if (!this._liEl || this._disabled) return;
+
+    this._liEl.classList.add(styles.focused);
+    this._contentEl
+      ?.querySelector<HTMLElement>(FOCUSABLE_SELECTOR)
+      ?.focus({ preventScroll: true });
+  }
+
+  /**
+   * Removes the focused styling from the item.
+   */
+  blur(): void {
+    this._liEl?.classList.remove(styles.focused);
+  }
+
+  /**
+   * Removes the item from the DOM, cleaning up its content.
+   * @returns The item instance for method chaining.
+   */
+  remove(): this {
+    if (this._liEl) {
+      this._destroy();
+    }
+
+    this._liEl?.remove();
+    this._liEl = null;
+    this._contentEl = null;
+    return this;
+  }
+
+  /**
+   * Creates the item's content. Called the first time the item is rendered, and
+   * again after the item has been removed.
+   * @param ctx - The context the menu is shown with.
+   * @returns The element to show in the item.
+   */
+  protected abstract _createContent(ctx: ContextMenuContext): HTMLElement;
+
+  /**
+   * Updates the item's content each time the menu is shown.
+   * @param _ctx - The context the menu is shown with.
+   */
+  protected _update(_ctx: ContextMenuContext): void {}
+
+  /**
+   * Cleans up anything set up in `_createContent` that removing the content from
+   * the DOM doesn't, such as listeners on the map or document.
+   */
+  protected _destroy(): void {}
+
+  private _setupUI(ctx: ContextMenuContext): void {
+    const li = createElement("li", {
+      class: this._className,
+      role: "none"
+    });
+
+    const content = createElement("div", { class: styles.content }, li);
+    content.appendChild(this._createContent(ctx));
+
+    this._liEl = li;
+    this._contentEl = content;
+
+    this._updateDisabled();
+    this._updateHidden();
+  }
+
+  private _updateDisabled(): void {
+    this._disabled =
+      (resolveContextValue(this._disabledOption, this._currentCtx) ?? false) ||
+      this._inheritedDisabled;
+
+    if (this._liEl) {
+      this._liEl.classList.toggle(styles.disabled, this._disabled);
+      // Keep the controls inside from being focused or used
+      this._contentEl?.toggleAttribute("inert", this._disabled);
+    }
+  }
+
+  private _updateHidden(): void {
+    this._hidden =
+      (resolveContextValue(this._hiddenOption, this._currentCtx) ?? false) ||
+      this._inheritedHidden;
+
+    if (this._liEl) {
+      this._liEl.hidden = this._hidden;
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuCustomItem";
+export type { ContextMenuCustomItemOptions } from "./ContextMenuCustomItem";
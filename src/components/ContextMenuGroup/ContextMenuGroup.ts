@@ -0,0 +1,310 @@
+import type { ContextMenuContext, ContextValue, MenuItem } from "../../types";
+import { resolveContextValue } from "../../util/context";
+import { createElement } from "../../util/dom";
+import ContextMenuCustomItem from "../ContextMenuCustomItem/ContextMenuCustomItem";
+import ContextMenuItem from "../ContextMenuItem/ContextMenuItem";
+import ContextMenuLabel from "../ContextMenuLabel/ContextMenuLabel";
+import styles from "./ContextMenuGroup.module.scss";
+
+/**
+ * An item that can be placed in a group. Groups can't be nested.
+ */
+export type ContextMenuGroupItem = Exclude<MenuItem, ContextMenuGroup>;
+
+/**
+ * Configuration options for creating a context menu group.
+ */
+export interface ContextMenuGroupOptions {
+  /** The heading shown above the items, which also names the group for screen readers. */
+  label: string;
+  /** The items in the group. */
+  items?: ContextMenuGroupItem[];
+  /** Whether the group and all its items are hidden. Defaults to `false`. */
+  hidden?: ContextValue<boolean>;
+  /** Whether all items in the group are disabled. Defaults to `false`. */
+  disabled?: ContextValue<boolean>;
+  /** Custom CSS class name for the `<li>` element. */
+  className?: string;
+}
+
+/**
+ * A labelled section of menu items, announced by screen readers as a group named by its label.
+ *
+ * The group can be hidden, disabled or removed as a whole. Keyboard navigation moves
+ * through its items as if they were part of the menu. A group is hidden when none of
+ * its items are visible, e.g. while a search filters them out.
+ *
+ * @example
+ * ```ts
+ * const navigation = new ContextMenuGroup({
+ *   label: "Navigation",
+ *   items: [
+ *     new ContextMenuItem({ label: "Center map here" }),
+ *     new ContextMenuItem({ label: "Zoom in" })
+ *   ]
+ * });
+ * menu.addItem(navigation);
+ * ```
+ */
+export default class ContextMenuGroup {
+  private _labelItem: ContextMenuLabel;
+  private _items: ContextMenuGroupItem[];
+  private _className: string;
+
+  private _hiddenOption: ContextValue<boolean>;
+  private _disabledOption: ContextValue<boolean>;
+  private _hidden: boolean = false;
+  private _disabled: boolean = false;
+  private _collapsed: boolean = false;
+  private _currentCtx: ContextMenuContext | null = null;
+
+  private _liEl: HTMLElement | null = null;
+  private _listEl: HTMLElement | null = null;
+
+  /**
+   * Creates a new group.
+   * @param options - Configuration options for the group.
+   * @param options.label - The heading shown above the items, which also names the group for screen readers.
+   * @param options.items - The items in the group.
+   * @param options.hidden - Whether the group and all its items are hidden. Defaults to `false`.
+   * @param options.disabled - Whether all items in the group are disabled. Defaults to `false`.
+   * @param options.className - Custom CSS class name for the `<li>` element.
+   */
+  constructor(options: ContextMenuGroupOptions) {
+    this._labelItem = new ContextMenuLabel({ text: options.label });
+    this._items = [...(options.items ?? [])];
+    this._className = options.className
+      ? `${styles.group} ${options.className}`
+      : styles.group;
+    this._hiddenOption = options.hidden ?? false;
+    this._disabledOption = options.disabled ?? false;
+
+    this._updateHidden();
+    this._updateDisabled();
+  }
+
+  /**
+   * Gets the label of the group.
+   */
+  get label(): string {
+    return this._labelItem.text;
+  }
+
+  /**
+   * Sets the label of the group.
+   */
+  set label(value: string) {
+    this._labelItem.text = value;
+  }
+
+  /**
+   * Gets the items in the group.
+   * @returns The group items.
+   */
+  get items(): readonly ContextMenuGroupItem[] {
+    return this._items;
+  }
+
+  /**
+   * Gets whether the group is hidden.
+   * @returns `true` if the group is hidden, `false` otherwise.
+   */
+  get hidden(): boolean {
+    return this._hidden;
+  }
+
+  /**
+   * Sets whether the group and all its items are hidden.
+   * @param value - `true` to hide the group, `false` to show it, or a function returning either for the current context.
+   */
+  set hidden(value: ContextValue<boolean>) {
+    this._hiddenOption = value;
+    this._updateHidden();
+  }
+
+  /**
+   * Gets whether the group is disabled.
+   * @returns `true` if the group is disabled, `false` otherwise.
+   */
+  get disabled(): boolean {
+    return this._disabled;
+  }
+
+  /**
+   * Sets whether all items in the group are disabled.
+   * @param value - `true` to disable the group, `false` to enable it, or a function returning either for the current context.
+   */
+  set disabled(value: ContextValue<boolean>) {
+    this._disabledOption = value;
+    this._updateDisabled();
+  }
+
+  /**
+   * Whether the group is collapsed because none of its items are visible.
+   * @internal
+   */
+  set collapsed(value: boolean) {
+    this._collapsed = value;
+    this._updateVisibility();
+  }
+
+  /**
+   * Adds an item to the end of the group.
+   * @param item - The item to add.
+   * @returns The group instance for method chaining.
+   */
+  addItem(item: ContextMenuGroupItem): this {
+    this._items.push(item);
+    this._applyInheritedState(item);
+    return this;
+  }
+
+  /**
+   * Inserts an item at the specified index.
+   * @param index - The index at which to insert the item. If the index is out of bounds, the item will be added at the end.
+   * @param item - The item to insert.
+   * @returns The group instance for method chaining.
+   */
+  insertItem(index: number, item: ContextMenuGroupItem): this {
+    this._items.splice(index, 0, item);
+    this._applyInheritedState(item);
+    return this;
+  }
+
+  /**
+   * Removes an item from the group, doing any clean up necessary.
+   * @param item - The item to remove.
+   * @returns The group instance for method chaining.
+   */
+  removeItem(item: ContextMenuGroupItem): this {
+    const index = this._items.indexOf(item);
+    if (index !== -1) {
+      this._items.splice(index, 1);
+      if (
+        item instanceof ContextMenuItem ||
+        item instanceof ContextMenuCustomItem
+      ) {
+        item.inheritedHidden = false;
+        item.inheritedDisabled = false;
+      }
+      item.remove();
+    }
+    return this;
+  }
+
+  /**
+   * The item's `<li>` element, once it has been rendered.
+   * @internal
+   */
+  get element(): HTMLElement | null {
+    return this._liEl;
+  }
+
+  /**
+   * @internal
+   */
+  render(parent: HTMLElement, ctx: ContextMenuContext): HTMLElement {
+    this._currentCtx = ctx;
+
+    if (!this._liEl || !this._listEl) {
+      this._setupUI();
+    }
+
+    this._updateHidden();
+    this._updateDisabled();
+
+    const list = this._listEl!;
+    this._labelItem.render(list, ctx);
+    this._items.forEach((item) => {
+      item.render(list, ctx);
+    });
+
+    const liEl = this._liEl!;
+    if (liEl.parentElement !== parent) {
+      parent.appendChild(liEl);
+    }
+
+    return liEl;
+  }
+
+  /**
+   * Whether the group is shown and enabled for a context. Unlike rendering, this
+   * leaves the group and its items alone.
+   * @internal
+   */
+  isEnabled(ctx: ContextMenuContext): boolean {
+    return (
+      !(resolveContextValue(this._hiddenOption, ctx) ?? false) &&
+      !(resolveContextValue(this._disabledOption, ctx) ?? false)
+    );
+  }
+
+  /**
+   * Removes the group and all its items from the DOM, cleaning up event listeners.
+   * @returns The group instance for method chaining.
+   */
+  remove(): this {
+    this._items.forEach((item) => {
+      item.remove();
+    });
+    this._labelItem.remove();
+
+    this._liEl?.remove();
+    this._liEl = null;
+    this._listEl = null;
+    return this;
+  }
+
+  private _setupUI(): void {
+    const li = createElement("li", {
+      class: this._className,
+      role: "none"
+    });
+
+    const list = createElement(
+      "ul",
+      {
+        class: styles.list,
+        role: "group",
+        "aria-labelledby": this._labelItem.id
+      },
+      li
+    );
+
+    this._liEl = li;
+    this._listEl = list;
+
+    this._updateVisibility();
+  }
+
+  private _updateHidden(): void {
+    this._hidden =
+      resolveContextValue(this._hiddenOption, this._currentCtx) ?? false;
+
+    this._items.forEach((item) => this._applyInheritedState(item));
+    this._updateVisibility();
+  }
+
+  private _updateDisabled(): void {
+    this._disabled =
+      resolveContextValue(this._disabledOption, this._currentCtx) ?? false;
+
+    this._items.forEach((item) => this._applyInheritedState(item));
+  }
+
+  private _updateVisibility(): void {
+    if (this._liEl) {
+      this._liEl.hidden = this._hidden || this._collapsed;
+    }
+  }
+
+  private _applyInheritedState(item: ContextMenuGroupItem): void {
+    if (
+      item instanceof ContextMenuItem ||
+      item instanceof ContextMenuCustomItem
+    ) {
+      item.inheritedHidden = this._hidden;
+      item.inheritedDisabled = this._disabled;
+    }
+  }
+}
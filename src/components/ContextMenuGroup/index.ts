@@ -0,0 +1,5 @@
+export { default } from "./ContextMenuGroup";
+export type {
+  ContextMenuGroupItem,
+  ContextMenuGroupOptions
+} from "./ContextMenuGroup";
@@ -1,18 +1,41 @@
 import type {
   Content,
   ContextMenuContext,
-  ContextMenuItemEvent
+  ContextMenuItemEvent,
+  ContextValue
 } from "../../types";
 import { Evented } from "../../util/evented";
 import { createElement, createSlotElement } from "../../util/dom";
+import { contextFeature, resolveContextValue } from "../../util/context";
+import { formatAriaShortcut, formatShortcut } from "../../util/shortcut";
+import Tooltip from "../Tooltip";
 import styles from "./ContextMenuItem.module.scss";
 
-interface ContextMenuItemEvents extends Record<string, unknown> {
+export interface ContextMenuItemEvents extends Record<string, unknown> {
   click: ContextMenuItemEvent;
 }
 
+/**
+ * Options for an item that has to be activated twice before it fires its "click" event.
+ */
+export interface ContextMenuItemConfirmOptions {
+  /** The label shown after the first activation. Defaults to "Click again to confirm". */
+  label?: string;
+  /** How long, in milliseconds, the item waits for the second activation. Defaults to 3000. */
+  timeout?: number;
+}
+
+/** Label shown while an item waits for its confirming activation */
+const DEFAULT_CONFIRM_LABEL = "Click again to confirm";
+
+/** Time an item waits for its confirming activation (in milliseconds) */
+const DEFAULT_CONFIRM_TIMEOUT = 3000;
+
 /**
  * Configuration options for creating a context menu item.
+ *
+ * The `label`, `start`, `end`, `disabled`, `disabledReason` and `hidden` options also accept a
+ * function of the {@link ContextMenuContext}, which is evaluated each time the menu is shown.
  */
 export interface ContextMenuItemOptions {
   /** Custom CSS class name for the menu item's `<li>` element. */
@@ -20,13 +43,40 @@ export interface ContextMenuItemOptions {
   /** Custom CSS class name for the menu item's `<button>` element. */
   buttonClassName?: string;
   /** The text label to display. */
-  label: string;
+  label: ContextValue<string>;
   /** Content to display before the label (e.g., an icon element). */
-  start?: Content;
+  start?: ContextValue<Content | undefined>;
   /** Content to display after the label. */
-  end?: Content;
+  end?: ContextValue<Content | undefined>;
   /** Whether the menu item is disabled. Defaults to `false`. */
-  disabled?: boolean;
+  disabled?: ContextValue<boolean>;
+  /**
+   * Why the item is disabled, e.g. "Requires zoom ≥ 14". Shown in a tooltip while the
+   * disabled item is hovered or has keyboard focus. Disabled items with a reason stay
+   * reachable with the keyboard.
+   */
+  disabledReason?: ContextValue<string | undefined>;
+  /** Whether the menu item is hidden. Defaults to `false`. */
+  hidden?: ContextValue<boolean>;
+  /**
+   * A keyboard shortcut to show in the `end` slot when it has no other content,
+   * e.g. "Mod+C" or "+". "Mod" is Cmd on Apple platforms and Ctrl elsewhere.
+   */
+  shortcut?: string;
+  /**
+   * Whether the shortcut triggers the item while its MapboxContextMenu is attached
+   * to a map, even when the menu is closed. Defaults to `false`.
+   */
+  accelerator?: boolean;
+  /** The item's color scheme. Use `"danger"` for destructive actions. Defaults to `"default"`. */
+  variant?: "default" | "danger";
+  /**
+   * Whether the item has to be activated twice to fire its "click" event. The first
+   * activation replaces the label with a confirmation prompt and keeps the menu open.
+   * Pass an object to customize the prompt and how long it waits. Can't be combined
+   * with `accelerator`. Defaults to `false`.
+   */
+  confirm?: boolean | ContextMenuItemConfirmOptions;
 }
 
 /**
@@ -49,19 +99,57 @@ export interface ContextMenuItemOptions {
  *
  * menu.addItem(item);
  * ```
+ *
+ * @example
+ * ```ts
+ * const deleteItem = new ContextMenuItem({
+ *   label: ({ event }) => `Delete ${event.features?.[0]?.properties?.name}`,
+ *   hidden: ({ event }) => !event.features?.length
+ * });
+ * ```
+ *
+ * @example
+ * ```ts
+ * const clearItem = new ContextMenuItem({
+ *   label: "Clear all markers",
+ *   variant: "danger",
+ *   confirm: { label: "Click again to clear" }
+ * });
+ * ```
  **/
-export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
+export default class ContextMenuItem<
+  Events extends ContextMenuItemEvents = ContextMenuItemEvents
+> extends Evented<Events> {
   private _className: string;
-  private _buttonClassName: string;
-  private _label: string;
+  protected _buttonClassName: string;
+  private _labelOption: ContextValue<string>;
+  private _startOption: ContextValue<Content | undefined>;
+  private _endOption: ContextValue<Content | undefined>;
+  private _disabledOption: ContextValue<boolean>;
+  private _hiddenOption: ContextValue<boolean>;
+  private _disabledReasonOption: ContextValue<string | undefined>;
+  private _shortcut: string | undefined;
+  private _accelerator: boolean;
+  private _variant: "default" | "danger";
+  private _confirm: ContextMenuItemConfirmOptions | null;
+
+  private _label: string = "";
   private _start: Content | undefined;
   private _end: Content | undefined;
-  protected _disabled: boolean;
+  protected _disabled: boolean = false;
+  private _disabledReason: string | undefined;
+  private _tooltip: Tooltip | null = null;
+  protected _hidden: boolean = false;
+  private _filtered: boolean = false;
+  private _inheritedHidden: boolean = false;
+  private _inheritedDisabled: boolean = false;
+  private _confirming: boolean = false;
+  private _confirmTimeout: number | null = null;
 
   protected _liEl: HTMLElement | null = null;
   protected _buttonEl: HTMLElement | null = null;
   private _startEl: HTMLElement | null = null;
-  private _labelEl: HTMLElement | null = null;
+  protected _labelEl: HTMLElement | null = null;
   private _endEl: HTMLElement | null = null;
 
   protected _currentCtx: ContextMenuContext | null = null;
@@ -75,8 +163,15 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
    * @param options.start - Content to display before the label (e.g., an icon element).
    * @param options.end - Content to display after the label.
    * @param options.disabled - Whether the menu item is disabled. Defaults to `false`.
+   * @param options.disabledReason - Why the item is disabled, shown in a tooltip while it is hovered or focused.
+   * @param options.hidden - Whether the menu item is hidden. Defaults to `false`.
+   * @param options.shortcut - A keyboard shortcut to show in the `end` slot, e.g. "Mod+C".
+   * @param options.accelerator - Whether the shortcut triggers the item even when the menu is closed. Defaults to `false`.
+   * @param options.variant - The item's color scheme, `"default"` or `"danger"`. Defaults to `"default"`.
+   * @param options.confirm - Whether the item has to be activated twice to fire its "click" event. Defaults to `false`.
    * @param options.className - Custom CSS class name for the `<li>` element.
    * @param options.buttonClassName - Custom CSS class name for the `<button>` element.
+   * @throws {Error} If the item has both `confirm` and `accelerator`.
    */
   constructor(options: ContextMenuItemOptions) {
     super();
@@ -86,15 +181,29 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
     this._buttonClassName = options.buttonClassName
       ? `${styles.button} ${options.buttonClassName}`
       : styles.button;
-    this._label = options.label;
-    this._start = options.start;
-    this._end = options.end;
-    this._disabled = options.disabled ?? false;
+    this._labelOption = options.label;
+    this._startOption = options.start;
+    this._endOption = options.end;
+    this._disabledOption = options.disabled ?? false;
+    this._disabledReasonOption = options.disabledReason;
+    this._hiddenOption = options.hidden ?? false;
+    this._shortcut = options.shortcut;
+    this._accelerator = options.accelerator ?? false;
+    this._variant = options.variant ?? "default";
+    this._confirm = normalizeConfirm(options.confirm);
+    assertNotConfirmAccelerator(this._confirm, this._accelerator);
+
+    this._updateLabel();
+    this._updateStart();
+    this._updateEnd();
+    this._updateDisabled();
+    this._updateDisabledReason();
+    this._updateHidden();
   }
 
   /**
    * Gets the label text of the menu item.
-   * @returns The current label text.
+   * @returns The current label text. For a context-dependent label, this is the text from when the menu was last shown.
    */
   get label(): string {
     return this._label;
@@ -102,14 +211,11 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
 
   /**
    * Sets the label text of the menu item.
-   * @param value - The new label text to display.
+   * @param value - The new label text to display, or a function returning it for the current context.
    */
-  set label(value: string) {
-    this._label = value;
-
-    if (this._labelEl) {
-      this._labelEl.textContent = value;
-    }
+  set label(value: ContextValue<string>) {
+    this._labelOption = value;
+    this._updateLabel();
   }
 
   /**
@@ -122,11 +228,11 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
 
   /**
    * Sets the start slot content of the menu item.
-   * @param value - A string (rendered as text) or HTMLElement, or undefined to remove.
+   * @param value - A string (rendered as text) or HTMLElement, or undefined to remove. May also be a function returning the content for the current context.
    */
-  set start(value: Content | undefined) {
-    this._start = value;
-    this._startEl = this._updateSlot(value, styles.start, this._startEl, this._labelEl);
+  set start(value: ContextValue<Content | undefined>) {
+    this._startOption = value;
+    this._updateStart();
   }
 
   /**
@@ -139,11 +245,11 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
 
   /**
    * Sets the end slot content of the menu item.
-   * @param value - A string (rendered as text) or HTMLElement, or undefined to remove.
+   * @param value - A string (rendered as text) or HTMLElement, or undefined to remove. May also be a function returning the content for the current context.
    */
-  set end(value: Content | undefined) {
-    this._end = value;
-    this._endEl = this._updateSlot(value, styles.end, this._endEl);
+  set end(value: ContextValue<Content | undefined>) {
+    this._endOption = value;
+    this._updateEnd();
   }
 
   /**
@@ -156,17 +262,194 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
 
   /**
    * Sets whether the menu item is disabled.
-   * @param value - `true` to disable the menu item, `false` to enable it.
+   * @param value - `true` to disable the menu item, `false` to enable it, or a function returning either for the current context.
    */
-  set disabled(value: boolean) {
-    this._disabled = value;
+  set disabled(value: ContextValue<boolean>) {
+    this._disabledOption = value;
+    this._updateDisabled();
+  }
 
-    if (this._buttonEl) {
-      (this._buttonEl as HTMLButtonElement).disabled = value;
-      this._buttonEl.setAttribute("aria-disabled", String(value));
+  /**
+   * Gets the reason the menu item is disabled.
+   * @returns The reason, or `undefined` if not set. For a context-dependent reason, this is the reason from when the menu was last shown.
+   */
+  get disabledReason(): string | undefined {
+    return this._disabledReason;
+  }
+
+  /**
+   * Sets the reason the menu item is disabled, shown in a tooltip while the disabled item is hovered or focused.
+   * @param value - The reason, `undefined` to remove it, or a function returning either for the current context.
+   */
+  set disabledReason(value: ContextValue<string | undefined>) {
+    this._disabledReasonOption = value;
+    this._updateDisabledReason();
+  }
+
+  /**
+   * Whether the item is disabled but can still receive keyboard focus, so its
+   * disabled reason can be read.
+   * @internal
+   */
+  get focusableWhenDisabled(): boolean {
+    return this._disabledReason !== undefined;
+  }
+
+  /**
+   * Gets whether the menu item is hidden.
+   * @returns `true` if the menu item is hidden, `false` otherwise.
+   */
+  get hidden(): boolean {
+    return this._hidden;
+  }
+
+  /**
+   * Sets whether the menu item is hidden. Hidden items are skipped by keyboard navigation.
+   * @param value - `true` to hide the menu item, `false` to show it, or a function returning either for the current context.
+   */
+  set hidden(value: ContextValue<boolean>) {
+    this._hiddenOption = value;
+    this._updateHidden();
+  }
+
+  /**
+   * Whether the item is filtered out by a search item in its menu.
+   * @internal
+   */
+  get filtered(): boolean {
+    return this._filtered;
+  }
+
+  set filtered(value: boolean) {
+    this._filtered = value;
+    if (this._liEl) {
+      this._liEl.hidden = this._hidden || value;
     }
   }
 
+  /**
+   * The options that may depend on the context, as they were given rather than
+   * as resolved when the menu was last shown.
+   * @internal
+   */
+  get contextOptions(): {
+    label: ContextValue<string>;
+    hidden: ContextValue<boolean>;
+    disabled: ContextValue<boolean>;
+    disabledReason: ContextValue<string | undefined>;
+  } {
+    return {
+      label: this._labelOption,
+      hidden: this._hiddenOption,
+      disabled: this._disabledOption,
+      disabledReason: this._disabledReasonOption
+    };
+  }
+
+  /**
+   * Whether the item is hidden because its group is hidden.
+   * @internal
+   */
+  set inheritedHidden(value: boolean) {
+    this._inheritedHidden = value;
+    this._updateHidden();
+  }
+
+  /**
+   * Whether the item is disabled because its group is disabled.
+   * @internal
+   */
+  set inheritedDisabled(value: boolean) {
+    this._inheritedDisabled = value;
+    this._updateDisabled();
+  }
+
+  /**
+   * Gets the keyboard shortcut of the menu item.
+   * @returns The shortcut (e.g. "Mod+C"), or `undefined` if not set.
+   */
+  get shortcut(): string | undefined {
+    return this._shortcut;
+  }
+
+  /**
+   * Sets the keyboard shortcut of the menu item, shown in the `end` slot when it has no other content.
+   * @param value - The shortcut (e.g. "Mod+C"), or `undefined` to remove it.
+   */
+  set shortcut(value: string | undefined) {
+    this._shortcut = value;
+    this._updateEnd();
+    this._updateAriaShortcut();
+  }
+
+  /**
+   * Gets whether the shortcut triggers the item even when the menu is closed.
+   */
+  get accelerator(): boolean {
+    return this._accelerator;
+  }
+
+  /**
+   * Sets whether the shortcut triggers the item even when the menu is closed.
+   * @throws {Error} If the item asks for confirmation.
+   */
+  set accelerator(value: boolean) {
+    assertNotConfirmAccelerator(this._confirm, value);
+    this._accelerator = value;
+  }
+
+  /**
+   * Gets the color scheme of the menu item.
+   */
+  get variant(): "default" | "danger" {
+    return this._variant;
+  }
+
+  /**
+   * Sets the color scheme of the menu item.
+   * @param value - `"danger"` for destructive actions, or `"default"`.
+   */
+  set variant(value: "default" | "danger") {
+    this._variant = value;
+    this._updateVariant();
+  }
+
+  /**
+   * Gets the confirmation options of the menu item.
+   * @returns The options, or `null` if the item fires on the first activation.
+   */
+  get confirm(): ContextMenuItemConfirmOptions | null {
+    return this._confirm;
+  }
+
+  /**
+   * Sets whether the menu item has to be activated twice to fire its "click" event.
+   * @param value - `true` or an options object to require confirmation, `false` to fire on the first activation.
+   * @throws {Error} If the item has an accelerator.
+   */
+  set confirm(value: boolean | ContextMenuItemConfirmOptions) {
+    const confirm = normalizeConfirm(value);
+    assertNotConfirmAccelerator(confirm, this._accelerator);
+    this._confirm = confirm;
+    this._resetConfirm();
+    this._updateConfirmLiveRegion();
+  }
+
+  /**
+   * Gets whether the menu item is waiting for a second activation to confirm.
+   */
+  get confirming(): boolean {
+    return this._confirming;
+  }
+
+  /**
+   * The item's `<li>` element, once it has been rendered.
+   * @internal
+   */
+  get element(): HTMLElement | null {
+    return this._liEl;
+  }
+
   /**
    * @internal
    */
@@ -177,6 +460,8 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
       this._setupUI();
     }
 
+    this._updateContextValues();
+
     const liEl = this._liEl!;
     if (liEl.parentElement !== parent) {
       parent.appendChild(liEl);
@@ -185,13 +470,78 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
     return liEl;
   }
 
+  /**
+   * Activates the item for a context without the menu being shown, as when its
+   * keyboard accelerator is pressed. Hidden and disabled items are not activated.
+   * @internal
+   */
+  trigger(ctx: ContextMenuContext): void {
+    if (!this.isEnabled(ctx)) return;
+
+    // Activate for the given context without re-rendering the item, which may be
+    // shown in the open menu for another one
+    const currentCtx = this._currentCtx;
+    const disabled = this._disabled;
+    this._currentCtx = ctx;
+    this._disabled = false;
+    try {
+      this._activate(new MouseEvent("click"));
+    } finally {
+      this._currentCtx = currentCtx;
+      this._disabled = disabled;
+    }
+  }
+
+  /**
+   * Whether the item is shown and enabled for a context. Unlike rendering, this
+   * leaves the item's current state alone. Groups the item is in aren't considered.
+   * @internal
+   */
+  isEnabled(ctx: ContextMenuContext): boolean {
+    return (
+      !(resolveContextValue(this._hiddenOption, ctx) ?? false) &&
+      !(resolveContextValue(this._disabledOption, ctx) ?? false)
+    );
+  }
+
+  /**
+   * Cancels a pending confirmation, as when the menu is hidden.
+   * @internal
+   */
+  cancelConfirm(): void {
+    this._resetConfirm();
+  }
+
+  /**
+   * Whether activating the item from the keyboard has any effect.
+   * @internal
+   */
+  get activatable(): boolean {
+    return this.listens("click");
+  }
+
+  /**
+   * Whether activating the item leaves the menu open.
+   * @internal
+   */
+  get keepsMenuOpen(): boolean {
+    return this._confirming;
+  }
+
   /**
    * Focuses the menu item, adding the focused styling. Only works if the item is not `disabled`.
    */
   focus(): void {
-    if (this._buttonEl && !this._disabled) {
+    if (!this._buttonEl) return;
+
+    if (!this._disabled) {
+      this._buttonEl.classList.add(styles.focused);
+      this._buttonEl.focus();
+    } else if (this.focusableWhenDisabled) {
+      // Show the reason first, so screen readers announce it with the item
+      this._showDisabledReason();
       this._buttonEl.classList.add(styles.focused);
-      (this._buttonEl as HTMLButtonElement).focus();
+      this._buttonEl.focus();
     }
   }
 
@@ -199,6 +549,8 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
    * Removes focus from the menu item, removing the focused styling.
    */
   blur(): void {
+    this._tooltip?.hide();
+
     if (this._buttonEl) {
       this._buttonEl.classList.remove(styles.focused);
     }
@@ -220,7 +572,9 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
    */
   remove(): this {
     this._removeEventListeners();
+    this._resetConfirm();
 
+    this._tooltip?.remove();
     this._liEl?.remove();
 
     this._liEl = null;
@@ -232,18 +586,184 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
     return this;
   }
 
+  /**
+   * Re-evaluates context-dependent options for the current context.
+   */
+  private _updateContextValues(): void {
+    if (typeof this._labelOption === "function") this._updateLabel();
+    if (typeof this._startOption === "function") this._updateStart();
+    if (typeof this._endOption === "function") this._updateEnd();
+    if (typeof this._disabledOption === "function") this._updateDisabled();
+    if (typeof this._disabledReasonOption === "function") {
+      this._updateDisabledReason();
+    }
+    if (typeof this._hiddenOption === "function") this._updateHidden();
+  }
+
+  private _updateLabel(): void {
+    this._label =
+      resolveContextValue(this._labelOption, this._currentCtx) ?? "";
+
+    if (this._labelEl && !this._confirming) {
+      this._labelEl.textContent = this._label;
+    }
+  }
+
+  private _updateStart(): void {
+    this._start = resolveContextValue(this._startOption, this._currentCtx);
+    this._startEl = this._updateSlot(
+      this._start,
+      styles.start,
+      this._startEl,
+      this._labelEl
+    );
+  }
+
+  private _updateEnd(): void {
+    this._end =
+      resolveContextValue(this._endOption, this._currentCtx) ??
+      (this._shortcut !== undefined
+        ? {
+            as: "kbd",
+            className: styles.shortcut,
+            content: formatShortcut(this._shortcut)
+          }
+        : undefined);
+    this._endEl = this._updateSlot(this._end, styles.end, this._endEl);
+  }
+
+  private _updateDisabled(): void {
+    this._disabled =
+      (resolveContextValue(this._disabledOption, this._currentCtx) ?? false) ||
+      this._inheritedDisabled;
+
+    this._applyDisabledState();
+  }
+
+  private _updateDisabledReason(): void {
+    this._disabledReason = resolveContextValue(
+      this._disabledReasonOption,
+      this._currentCtx
+    );
+
+    if (this._disabledReason !== undefined) {
+      this._tooltip ??= new Tooltip();
+      this._tooltip.text = this._disabledReason;
+    }
+
+    this._applyDisabledState();
+  }
+
+  protected _applyDisabledState(): void {
+    if (!this._buttonEl) return;
+
+    const button = this._buttonEl;
+    const describe = this._disabled && this.focusableWhenDisabled;
+
+    // Natively disabled buttons can't be focused, so items with a reason are
+    // only marked as disabled for assistive technology
+    if (button instanceof HTMLButtonElement) {
+      button.disabled = this._disabled && !describe;
+    }
+    button.setAttribute("aria-disabled", String(this._disabled));
+
+    if (describe) {
+      button.setAttribute("aria-describedby", this._tooltip!.id);
+    } else {
+      button.removeAttribute("aria-describedby");
+      this._tooltip?.hide();
+    }
+  }
+
+  private _showDisabledReason(): void {
+    if (!this._tooltip || !this._buttonEl || !this._currentCtx) return;
+
+    this._tooltip.show(
+      this._buttonEl,
+      this._currentCtx.map.getContainer(),
+      this._currentCtx.menuTheme
+    );
+  }
+
+  private _updateAriaShortcut(): void {
+    if (!this._buttonEl) return;
+
+    if (this._shortcut !== undefined) {
+      this._buttonEl.setAttribute(
+        "aria-keyshortcuts",
+        formatAriaShortcut(this._shortcut)
+      );
+    } else {
+      this._buttonEl.removeAttribute("aria-keyshortcuts");
+    }
+  }
+
+  private _updateVariant(): void {
+    this._buttonEl?.classList.toggle(styles.danger, this._variant === "danger");
+  }
+
+  private _updateConfirmLiveRegion(): void {
+    if (!this._labelEl) return;
+
+    // Announce the confirmation prompt, which replaces the label while the item has focus
+    if (this._confirm) {
+      this._labelEl.setAttribute("aria-live", "polite");
+    } else {
+      this._labelEl.removeAttribute("aria-live");
+    }
+  }
+
+  /**
+   * Asks for a second activation, showing the confirmation prompt until it times out.
+   */
+  private _startConfirm(): void {
+    if (!this._confirm) return;
+
+    this._confirming = true;
+    this._buttonEl?.classList.add(styles.confirming);
+    if (this._labelEl) {
+      this._labelEl.textContent = this._confirm.label ?? DEFAULT_CONFIRM_LABEL;
+    }
+
+    this._confirmTimeout = window.setTimeout(() => {
+      this._confirmTimeout = null;
+      this._resetConfirm();
+    }, this._confirm.timeout ?? DEFAULT_CONFIRM_TIMEOUT);
+  }
+
+  private _resetConfirm(): void {
+    if (this._confirmTimeout !== null) {
+      clearTimeout(this._confirmTimeout);
+      this._confirmTimeout = null;
+    }
+
+    if (!this._confirming) return;
+
+    this._confirming = false;
+    this._buttonEl?.classList.remove(styles.confirming);
+    if (this._labelEl) {
+      this._labelEl.textContent = this._label;
+    }
+  }
+
+  private _updateHidden(): void {
+    this._hidden =
+      (resolveContextValue(this._hiddenOption, this._currentCtx) ?? false) ||
+      this._inheritedHidden;
+
+    if (this._liEl) {
+      this._liEl.hidden = this._hidden || this._filtered;
+    }
+  }
+
   private _setupUI(): void {
     const li = createElement("li", {
       role: "presentation",
       class: this._className
     });
+    li.hidden = this._hidden || this._filtered;
 
-    const button = createElement("button", {
-      role: "menuitem",
-      "aria-disabled": String(this._disabled),
-      class: this._buttonClassName,
-      ...(this._disabled && { disabled: "disabled" })
-    }) as HTMLButtonElement;
+    const button = this._createButtonElement();
 
     const labelEl = createElement("span", {
       class: styles.label
@@ -265,9 +785,25 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
     this._buttonEl = button;
     this._labelEl = labelEl;
 
+    this._applyDisabledState();
+    this._updateAriaShortcut();
+    this._updateVariant();
+    this._updateConfirmLiveRegion();
+
     this._addEventListeners();
   }
 
+  /**
+   * Creates the element that holds the item's slots and label.
+   * Subclasses override this to render a different element.
+   */
+  protected _createButtonElement(): HTMLElement {
+    return createElement("button", {
+      role: "menuitem",
+      class: this._buttonClassName
+    });
+  }
+
   private _updateSlot(
     content: Content | undefined,
     className: string,
@@ -297,25 +833,57 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
     if (!this._buttonEl) return;
 
     this._handlers.click = ((ev: MouseEvent) => {
-      ev.preventDefault();
-
-      if (!this._disabled && this._currentCtx) {
-        const { event, map } = this._currentCtx;
-        this.fire("click", {
-          type: "click",
-          target: this,
-          originalEvent: ev,
-          point: event.point,
-          lngLat: event.lngLat,
-          features: event.features,
-          map
-        });
+      const confirmFirst =
+        this._confirm && !this._confirming && !this._disabled;
+
+      // Let links navigate, but keep buttons from submitting a surrounding form
+      if (confirmFirst || !(this._buttonEl instanceof HTMLAnchorElement)) {
+        ev.preventDefault();
       }
+
+      if (confirmFirst) {
+        this._startConfirm();
+        return;
+      }
+
+      this._resetConfirm();
+      this._activate(ev);
     }) as EventListener;
 
     this._buttonEl.addEventListener("click", this._handlers.click);
   }
 
+  /**
+   * Performs the item's action for the current context, firing the "click" event.
+   * Subclasses override this to update their own state before calling it.
+   */
+  protected _activate(originalEvent: MouseEvent): void {
+    if (this._disabled || !this._currentCtx) return;
+
+    this.fire("click", {
+      type: "click",
+      target: this,
+      ...this._createEventData(originalEvent)
+    } as Events["click"]);
+  }
+
+  /**
+   * Creates the data shared by all item events from the current context.
+   */
+  protected _createEventData(
+    originalEvent: MouseEvent
+  ): Omit<ContextMenuItemEvent, "type" | "target"> {
+    const { event, map } = this._currentCtx!;
+    return {
+      originalEvent,
+      point: event.point,
+      lngLat: event.lngLat,
+      features: event.features,
+      feature: contextFeature(this._currentCtx!),
+      map
+    };
+  }
+
   protected _removeEventListeners(): void {
     if (!this._buttonEl) return;
 
@@ -327,3 +895,25 @@ export default class ContextMenuItem extends Evented<ContextMenuItemEvents> {
     }
   }
 }
+
+function normalizeConfirm(
+  value: boolean | ContextMenuItemConfirmOptions | undefined
+): ContextMenuItemConfirmOptions | null {
+  if (!value) return null;
+  return value === true ? {} : value;
+}
+
+/**
+ * Accelerators fire with the menu closed, where no confirmation prompt can be shown,
+ * so an item can't have both.
+ */
+function assertNotConfirmAccelerator(
+  confirm: ContextMenuItemConfirmOptions | null,
+  accelerator: boolean
+): void {
+  if (confirm && accelerator) {
+    throw new Error(
+      'A menu item cannot have both "confirm" and "accelerator", as accelerators skip the confirmation'
+    );
+  }
+}
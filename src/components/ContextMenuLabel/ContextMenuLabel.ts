@@ -1,5 +1,5 @@
 import type { ContextMenuContext } from "../../types";
-import { createElement } from "../../util/dom";
+import { createElement, uniqueId } from "../../util/dom";
 import styles from "./ContextMenuLabel.module.scss";
 
 /**
@@ -27,6 +27,8 @@ export default class ContextMenuLabel {
   private _className: string;
   private _liEl: HTMLElement | null = null;
   private _textEl: HTMLElement | null = null;
+  private _collapsed: boolean = false;
+  private _id: string = uniqueId("context-menu-label");
 
   /**
    * Creates a new label.
@@ -58,6 +60,33 @@ export default class ContextMenuLabel {
     }
   }
 
+  /**
+   * The id of the label element, for naming other elements with `aria-labelledby`.
+   * @internal
+   */
+  get id(): string {
+    return this._id;
+  }
+
+  /**
+   * Whether the label is collapsed because no items in its section match a search.
+   * @internal
+   */
+  set collapsed(value: boolean) {
+    this._collapsed = value;
+    if (this._liEl) {
+      this._liEl.hidden = value;
+    }
+  }
+
+  /**
+   * The item's `<li>` element, once it has been rendered.
+   * @internal
+   */
+  get element(): HTMLElement | null {
+    return this._liEl;
+  }
+
   /**
    * @internal
    */
@@ -76,6 +105,7 @@ export default class ContextMenuLabel {
 
   private _setupUI(): void {
     const li = createElement("li", {
+      id: this._id,
       class: this._className,
       role: "presentation"
     });
@@ -86,6 +116,7 @@ export default class ContextMenuLabel {
     text.textContent = this._text;
 
     li.appendChild(text);
+    li.hidden = this._collapsed;
 
     this._liEl = li;
     this._textEl = text;
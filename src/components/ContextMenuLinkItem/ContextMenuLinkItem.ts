@@ -0,0 +1,180 @@
+import type { ContextMenuContext, ContextValue } from "../../types";
+import { createElement } from "../../util/dom";
+import { resolveContextValue } from "../../util/context";
+import ContextMenuItem, {
+  type ContextMenuItemOptions
+} from "../ContextMenuItem/ContextMenuItem";
+import styles from "./ContextMenuLinkItem.module.scss";
+
+/**
+ * Configuration options for creating a link menu item.
+ * Extends {@link ContextMenuItemOptions} with the link's destination.
+ */
+export interface ContextMenuLinkItemOptions extends ContextMenuItemOptions {
+  /** The URL the item links to, or a function returning it for the current context. */
+  href: ContextValue<string>;
+  /** Where to open the link, e.g. `"_blank"` for a new tab. Defaults to the current browsing context. */
+  target?: string;
+}
+
+/**
+ * A menu item that renders a real link, so middle-click, "Open in new tab" and
+ * the browser's status bar preview work as they do for any other link.
+ *
+ * Link items fire the "click" event like other menu items before the browser
+ * follows the link. Disabled link items have no `href` and can't be followed.
+ *
+ * @example
+ * ```ts
+ * const streetView = new ContextMenuLinkItem({
+ *   label: "Open in Street View",
+ *   href: ({ event }) =>
+ *     `https://www.google.com/maps/@?api=1&map_action=pano&viewpoint=${event.lngLat.lat},${event.lngLat.lng}`,
+ *   target: "_blank"
+ * });
+ *
+ * menu.addItem(streetView);
+ * ```
+ */
+export default class ContextMenuLinkItem extends ContextMenuItem {
+  private _hrefOption: ContextValue<string>;
+  private _href: string = "";
+  private _target: string | undefined;
+
+  /**
+   * Creates a new link menu item.
+   * @param options - Configuration options for the link item.
+   * @param options.label - The text label to display.
+   * @param options.href - The URL the item links to, or a function returning it for the current context.
+   * @param options.target - Where to open the link, e.g. `"_blank"`.
+   * @param options.start - Content to display before the label (e.g., an icon element).
+   * @param options.end - Content to display after the label.
+   * @param options.disabled - Whether the item is disabled. Defaults to `false`.
+   * @param options.className - Custom CSS class name for the `<li>` element.
+   * @param options.buttonClassName - Custom CSS class name for the `<a>` element.
+   */
+  constructor(options: ContextMenuLinkItemOptions) {
+    super(options);
+    this._hrefOption = options.href;
+    this._target = options.target;
+    this._updateHref();
+  }
+
+  /**
+   * Gets the URL the item links to.
+   * @returns The URL. For a context-dependent URL, this is the URL from when the menu was last shown.
+   */
+  get href(): string {
+    return this._href;
+  }
+
+  /**
+   * Sets the URL the item links to.
+   * @param value - The URL, or a function returning it for the current context.
+   */
+  set href(value: ContextValue<string>) {
+    this._hrefOption = value;
+    this._updateHref();
+  }
+
+  /**
+   * Gets where the link opens.
+   * @returns The link target, or `undefined` for the current browsing context.
+   */
+  get target(): string | undefined {
+    return this._target;
+  }
+
+  /**
+   * Sets where the link opens.
+   * @param value - The link target, e.g. `"_blank"`, or `undefined` for the current browsing context.
+   */
+  set target(value: string | undefined) {
+    this._target = value;
+    this._updateTarget();
+  }
+
+  /**
+   * @internal
+   */
+  get activatable(): boolean {
+    return true;
+  }
+
+  /**
+   * @internal
+   */
+  render(parent: HTMLElement, ctx: ContextMenuContext): HTMLElement {
+    const liEl = super.render(parent, ctx);
+
+    if (typeof this._hrefOption === "function") {
+      this._updateHref();
+    }
+
+    return liEl;
+  }
+
+  /**
+   * @internal
+   */
+  trigger(ctx: ContextMenuContext): void {
+    if (!this.isEnabled(ctx)) return;
+
+    super.trigger(ctx);
+
+    const href = resolveContextValue(this._hrefOption, ctx);
+    if (!href) return;
+
+    // Accelerators don't click the link, so follow it the way the browser would
+    if (this._target === undefined || this._target === "_self") {
+      window.location.assign(href);
+    } else {
+      window.open(href, this._target, "noopener");
+    }
+  }
+
+  protected _createButtonElement(): HTMLElement {
+    const link = createElement("a", {
+      role: "menuitem",
+      class: `${this._buttonClassName} ${styles.link}`
+    });
+
+    // Keep the link focusable when it has no href, e.g. to show a disabled reason
+    link.setAttribute("tabindex", "0");
+
+    return link;
+  }
+
+  protected _applyDisabledState(): void {
+    super._applyDisabledState();
+    this._updateHref();
+  }
+
+  private _updateHref(): void {
+    // The base constructor applies the disabled state before the href is set
+    if (this._hrefOption === undefined) return;
+
+    this._href = resolveContextValue(this._hrefOption, this._currentCtx) ?? "";
+
+    if (!this._buttonEl) return;
+
+    if (this._disabled || !this._href) {
+      this._buttonEl.removeAttribute("href");
+    } else {
+      this._buttonEl.setAttribute("href", this._href);
+    }
+    this._updateTarget();
+  }
+
+  private _updateTarget(): void {
+    if (!this._buttonEl) return;
+
+    if (this._target !== undefined) {
+      this._buttonEl.setAttribute("target", this._target);
+      this._buttonEl.setAttribute("rel", "noopener");
+    } else {
+      this._buttonEl.removeAttribute("target");
+      this._buttonEl.removeAttribute("rel");
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuLinkItem";
+export type { ContextMenuLinkItemOptions } from "./ContextMenuLinkItem";
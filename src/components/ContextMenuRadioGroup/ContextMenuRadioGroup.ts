@@ -0,0 +1,118 @@
+import type {
+  ContextMenuItemEvent,
+  ContextMenuRadioGroupEvent
+} from "../../types";
+import type ContextMenuRadioItem from "../ContextMenuRadioItem/ContextMenuRadioItem";
+import { Evented } from "../../util/evented";
+
+type ContextMenuRadioGroupEvents = {
+  /** Fired when the user selects a different item in the group. */
+  change: ContextMenuRadioGroupEvent;
+};
+
+/**
+ * Configuration options for creating a radio group.
+ */
+export interface ContextMenuRadioGroupOptions {
+  /** The value of the initially selected item, if any. */
+  value?: string;
+}
+
+/**
+ * A set of mutually exclusive {@link ContextMenuRadioItem}s.
+ *
+ * The group itself is not rendered. Its items are added to a menu or submenu like
+ * any other item, and the group tracks which of them is selected.
+ *
+ * @example
+ * ```ts
+ * const basemap = new ContextMenuRadioGroup({ value: "streets" });
+ *
+ * basemap.on("change", ({ map, value }) => {
+ *   map.setStyle(`mapbox://styles/mapbox/${value}-v12`);
+ * });
+ *
+ * const basemapSubmenu = new ContextMenuSubmenu({ label: "Basemap" });
+ * basemapSubmenu.addItem(new ContextMenuRadioItem({ label: "Streets", value: "streets", group: basemap }));
+ * basemapSubmenu.addItem(new ContextMenuRadioItem({ label: "Satellite", value: "satellite-streets", group: basemap }));
+ * basemapSubmenu.addItem(new ContextMenuRadioItem({ label: "Outdoors", value: "outdoors", group: basemap }));
+ * ```
+ */
+export default class ContextMenuRadioGroup extends Evented<ContextMenuRadioGroupEvents> {
+  private _value: string | undefined;
+  private _items: ContextMenuRadioItem[] = [];
+
+  /**
+   * Creates a new radio group.
+   * @param options - Configuration options for the radio group.
+   * @param options.value - The value of the initially selected item, if any.
+   */
+  constructor(options?: ContextMenuRadioGroupOptions) {
+    super();
+    this._value = options?.value;
+  }
+
+  /**
+   * Gets the value of the selected item.
+   * @returns The selected value, or `undefined` if no item is selected.
+   */
+  get value(): string | undefined {
+    return this._value;
+  }
+
+  /**
+   * Sets the selected item by value. Does not fire the "change" event.
+   * @param value - The value of the item to select, or `undefined` to clear the selection.
+   */
+  set value(value: string | undefined) {
+    this._value = value;
+    this._items.forEach((item) => item.updateChecked());
+  }
+
+  /**
+   * Gets the radio items in the group.
+   * @returns The radio items.
+   */
+  get items(): readonly ContextMenuRadioItem[] {
+    return this._items;
+  }
+
+  /**
+   * @internal
+   */
+  registerItem(item: ContextMenuRadioItem): void {
+    if (!this._items.includes(item)) {
+      this._items.push(item);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  unregisterItem(item: ContextMenuRadioItem): void {
+    const index = this._items.indexOf(item);
+    if (index !== -1) {
+      this._items.splice(index, 1);
+    }
+  }
+
+  /**
+   * Selects an item in response to user input, firing "change" if the value changed.
+   * @internal
+   */
+  select(
+    item: ContextMenuRadioItem,
+    data: Omit<ContextMenuItemEvent, "type" | "target">
+  ): void {
+    if (item.value === this._value) return;
+
+    this.value = item.value;
+    this.fire("change", {
+      type: "change",
+      target: this,
+      item,
+      value: item.value,
+      ...data
+    });
+  }
+}
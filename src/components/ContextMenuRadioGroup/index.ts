@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuRadioGroup";
+export type { ContextMenuRadioGroupOptions } from "./ContextMenuRadioGroup";
@@ -0,0 +1,142 @@
+import type { ContextMenuContext } from "../../types";
+import ContextMenuItem, {
+  type ContextMenuItemOptions
+} from "../ContextMenuItem/ContextMenuItem";
+import type ContextMenuRadioGroup from "../ContextMenuRadioGroup/ContextMenuRadioGroup";
+import styles from "./ContextMenuRadioItem.module.scss";
+
+/**
+ * Configuration options for creating a radio menu item.
+ * Extends {@link ContextMenuItemOptions} with the item's value and group.
+ */
+export interface ContextMenuRadioItemOptions extends ContextMenuItemOptions {
+  /** The value the group takes when this item is selected. */
+  value: string;
+  /** The group this item belongs to. */
+  group: ContextMenuRadioGroup;
+  /** Whether the menu stays open after the item is selected. Defaults to `false`. */
+  keepOpen?: boolean;
+}
+
+/**
+ * A menu item that selects one value of a {@link ContextMenuRadioGroup}, shown
+ * with a dot when selected.
+ *
+ * Selecting a different item fires a single "change" event on the group, in
+ * addition to the "click" event fired by the item.
+ *
+ * @example
+ * ```ts
+ * const group = new ContextMenuRadioGroup({ value: "streets" });
+ *
+ * menu.addItem(new ContextMenuRadioItem({ label: "Streets", value: "streets", group }));
+ * menu.addItem(new ContextMenuRadioItem({ label: "Satellite", value: "satellite", group }));
+ * ```
+ */
+export default class ContextMenuRadioItem extends ContextMenuItem {
+  private _value: string;
+  private _group: ContextMenuRadioGroup;
+  private _keepOpen: boolean;
+  private _radioEl: HTMLSpanElement | null = null;
+
+  /**
+   * Creates a new radio menu item.
+   * @param options - Configuration options for the radio item.
+   * @param options.label - The text label to display.
+   * @param options.value - The value the group takes when this item is selected.
+   * @param options.group - The group this item belongs to.
+   * @param options.keepOpen - Whether the menu stays open after the item is selected. Defaults to `false`.
+   * @param options.start - Content to display before the label (e.g., an icon element).
+   * @param options.end - Content to display after the label.
+   * @param options.disabled - Whether the item is disabled. Defaults to `false`.
+   * @param options.className - Custom CSS class name for the `<li>` element.
+   * @param options.buttonClassName - Custom CSS class name for the `<button>` element.
+   */
+  constructor(options: ContextMenuRadioItemOptions) {
+    super(options);
+    this._value = options.value;
+    this._group = options.group;
+    this._keepOpen = options.keepOpen ?? false;
+    this._group.registerItem(this);
+  }
+
+  /**
+   * Gets the value the group takes when this item is selected.
+   */
+  get value(): string {
+    return this._value;
+  }
+
+  /**
+   * Gets the group this item belongs to.
+   */
+  get group(): ContextMenuRadioGroup {
+    return this._group;
+  }
+
+  /**
+   * Gets whether this item is the selected item of its group.
+   */
+  get checked(): boolean {
+    return this._group.value === this._value;
+  }
+
+  /**
+   * @internal
+   */
+  get activatable(): boolean {
+    return true;
+  }
+
+  /**
+   * @internal
+   */
+  get keepsMenuOpen(): boolean {
+    return this._keepOpen || super.keepsMenuOpen;
+  }
+
+  /**
+   * Updates the checked state shown by the item after the group value changes.
+   * @internal
+   */
+  updateChecked(): void {
+    this._buttonEl?.setAttribute("aria-checked", String(this.checked));
+  }
+
+  /**
+   * @internal
+   */
+  render(parent: HTMLElement, ctx: ContextMenuContext): HTMLElement {
+    // Rejoin the group if the item was removed and added to a menu again
+    this._group.registerItem(this);
+    const liEl = super.render(parent, ctx);
+
+    if (!this._radioEl && this._buttonEl) {
+      this._buttonEl.setAttribute("role", "menuitemradio");
+
+      this._radioEl = document.createElement("span");
+      this._radioEl.className = styles.radio;
+      this._buttonEl.prepend(this._radioEl);
+    }
+
+    this.updateChecked();
+
+    return liEl;
+  }
+
+  remove(): this {
+    super.remove();
+    this._radioEl = null;
+    this._group.unregisterItem(this);
+    return this;
+  }
+
+  protected _activate(originalEvent: MouseEvent): void {
+    if (this._disabled || !this._currentCtx) return;
+
+    // Select before the "click" event fires so handlers see the new value
+    this._group.select(this, this._createEventData(originalEvent));
+
+    super._activate(originalEvent);
+  }
+}
@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuRadioItem";
+export type { ContextMenuRadioItemOptions } from "./ContextMenuRadioItem";
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { ContextMenuContext } from "../../types";
+import ContextMenu from "../ContextMenu/ContextMenu";
+import ContextMenuItem from "../ContextMenuItem";
+import ContextMenuRangeItem from "./ContextMenuRangeItem";
+
+const ctx = {
+  map: {},
+  event: { point: { x: 0, y: 0 }, lngLat: { lng: 0, lat: 0 } }
+} as unknown as ContextMenuContext;
+
+function keydown(key: string): KeyboardEvent {
+  return new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true });
+}
+
+describe("ContextMenuRangeItem", () => {
+  let container: HTMLElement | null = null;
+
+  afterEach(() => {
+    container?.remove();
+    container = null;
+  });
+
+  it("claims the keys that move a slider", () => {
+    const item = new ContextMenuRangeItem({ label: "Opacity" });
+
+    for (const key of ["ArrowLeft", "ArrowRight", "Home", "End", "PageUp"]) {
+      expect(item.claimsKey(keydown(key))).toBe(true);
+    }
+    expect(item.claimsKey(keydown("ArrowUp"))).toBe(false);
+    expect(item.claimsKey(keydown("ArrowDown"))).toBe(false);
+  });
+
+  it("claims the keys that step a number field", () => {
+    const item = new ContextMenuRangeItem({ label: "Zoom", input: "number" });
+
+    expect(item.claimsKey(keydown("ArrowUp"))).toBe(true);
+    expect(item.claimsKey(keydown("ArrowDown"))).toBe(true);
+    for (const key of ["ArrowLeft", "ArrowRight", "Home", "End"]) {
+      expect(item.claimsKey(keydown(key))).toBe(false);
+    }
+  });
+
+  it("keeps focus in a number field when stepping it", () => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    const menu = new ContextMenu();
+    menu.addItem(new ContextMenuRangeItem({ label: "Zoom", input: "number" }));
+    menu.addItem(new ContextMenuItem({ label: "Reset" }));
+    menu.addTo(container);
+    menu.show(0, 0, ctx);
+
+    const input = container.querySelector("input")!;
+    input.focus();
+    input.dispatchEvent(keydown("ArrowDown"));
+
+    expect(document.activeElement).toBe(input);
+    menu.remove();
+  });
+});
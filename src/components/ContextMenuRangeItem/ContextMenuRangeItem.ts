@@ -0,0 +1,350 @@
+import type {
+  Content,
+  ContextMenuContext,
+  ContextMenuRangeItemEvent,
+  ContextValue
+} from "../../types";
+import { contextFeature, resolveContextValue } from "../../util/context";
+import { createElement, createSlotElement } from "../../util/dom";
+import ContextMenuCustomItem, {
+  type ContextMenuCustomItemOptions
+} from "../ContextMenuCustomItem/ContextMenuCustomItem";
+import itemStyles from "../ContextMenuItem/ContextMenuItem.module.scss";
+import styles from "./ContextMenuRangeItem.module.scss";
+
+/** Keys a focused slider uses to change its value */
+const RANGE_KEYS = [
+  "ArrowLeft",
+  "ArrowRight",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown"
+];
+
+/** Keys a focused number field uses to step its value */
+const NUMBER_KEYS = ["ArrowUp", "ArrowDown"];
+
+type ContextMenuRangeItemEvents = {
+  /** Fired continuously while the value is being adjusted. */
+  input: ContextMenuRangeItemEvent;
+  /** Fired when the user commits a new value, e.g. by releasing the slider. */
+  change: ContextMenuRangeItemEvent;
+};
+
+/**
+ * Configuration options for creating a range menu item.
+ * Extends {@link ContextMenuCustomItemOptions} with the range settings.
+ */
+export interface ContextMenuRangeItemOptions extends ContextMenuCustomItemOptions {
+  /** The text label to display before the slider. */
+  label: string;
+  /** Content to display before the label. */
+  start?: Content;
+  /** The minimum value. Defaults to 0. */
+  min?: number;
+  /** The maximum value. Defaults to 100. */
+  max?: number;
+  /** The step between values. Defaults to 1. */
+  step?: number;
+  /** The current value, or a function reading it from the context each time the menu is shown. Defaults to `min`. */
+  value?: ContextValue<number>;
+  /** Formats the value shown after the slider. Defaults to the number itself. */
+  format?: (value: number) => string;
+  /** Whether the value is set with a slider or typed into a number field. Defaults to `"range"`. */
+  input?: "range" | "number";
+}
+
+/**
+ * A menu item with a slider or number field for adjusting a number, such as a
+ * layer's opacity.
+ *
+ * The current value is shown after the slider. The item fires "input" events
+ * while the value is being adjusted and a "change" event when it is committed.
+ * The menu stays open while the input is in use. When the slider has focus,
+ * ArrowLeft/ArrowRight, Home/End and PageUp/PageDown adjust the value. With
+ * `input: "number"`, the value is typed instead, and values outside `min` and
+ * `max` are clamped when committed. When the number field has focus,
+ * ArrowUp/ArrowDown step the value, and ArrowLeft/ArrowRight and Home/End move
+ * the caret.
+ *
+ * @example
+ * ```ts
+ * const opacity = new ContextMenuRangeItem({
+ *   label: "Opacity",
+ *   min: 0,
+ *   max: 1,
+ *   step: 0.05,
+ *   value: ({ map }) => map.getPaintProperty("buildings", "fill-opacity"),
+ *   format: (value) => `${Math.round(value * 100)}%`
+ * });
+ *
+ * opacity.on("input", ({ map, value }) => {
+ *   map.setPaintProperty("buildings", "fill-opacity", value);
+ * });
+ *
+ * menu.addItem(opacity);
+ * ```
+ */
+export default class ContextMenuRangeItem extends ContextMenuCustomItem<ContextMenuRangeItemEvents> {
+  private _label: string;
+  private _start: Content | undefined;
+  private _min: number;
+  private _max: number;
+  private _step: number;
+  private _valueOption: ContextValue<number>;
+  private _value: number;
+  private _format: (value: number) => string;
+  private _inputType: "range" | "number";
+
+  private _labelEl: HTMLElement | null = null;
+  private _inputEl: HTMLInputElement | null = null;
+  private _valueEl: HTMLElement | null = null;
+
+  private _handlers: Record<string, EventListener | null> = {};
+
+  /**
+   * Creates a new range menu item.
+   * @param options - Configuration options for the range item.
+   * @param options.label - The text label to display before the slider.
+   * @param options.start - Content to display before the label.
+   * @param options.min - The minimum value. Defaults to 0.
+   * @param options.max - The maximum value. Defaults to 100.
+   * @param options.step - The step between values. Defaults to 1.
+   * @param options.value - The current value, or a function reading it from the context. Defaults to `min`.
+   * @param options.format - Formats the value shown after the slider.
+   * @param options.input - Whether the value is set with a slider or typed into a number field. Defaults to `"range"`.
+   * @param options.disabled - Whether the item is disabled. Defaults to `false`.
+   * @param options.hidden - Whether the item is hidden. Defaults to `false`.
+   * @param options.className - Custom CSS class name for the `<li>` element.
+   */
+  constructor(options: ContextMenuRangeItemOptions) {
+    super(options);
+    this._label = options.label;
+    this._start = options.start;
+    this._min = options.min ?? 0;
+    this._max = options.max ?? 100;
+    this._step = options.step ?? 1;
+    this._valueOption = options.value ?? this._min;
+    this._value = resolveContextValue(this._valueOption, null) ?? this._min;
+    this._format = options.format ?? String;
+    this._inputType = options.input ?? "range";
+  }
+
+  /**
+   * Gets the label text of the item.
+   */
+  get label(): string {
+    return this._label;
+  }
+
+  /**
+   * Sets the label text of the item.
+   */
+  set label(value: string) {
+    this._label = value;
+    if (this._labelEl) {
+      this._labelEl.textContent = value;
+    }
+    this._updateInput();
+  }
+
+  /**
+   * Gets the current value.
+   * @returns The current value. For a context-dependent value, this is the value from when the menu was last shown, or as adjusted since.
+   */
+  get value(): number {
+    return this._value;
+  }
+
+  /**
+   * Sets the current value, without firing events.
+   * @param value - The value, or a function reading it from the context each time the menu is shown.
+   */
+  set value(value: ContextValue<number>) {
+    this._valueOption = value;
+    this._value = resolveContextValue(value, this._currentCtx) ?? this._value;
+    this._updateInput();
+  }
+
+  /**
+   * Gets the minimum value.
+   */
+  get min(): number {
+    return this._min;
+  }
+
+  /**
+   * Sets the minimum value.
+   */
+  set min(value: number) {
+    this._min = value;
+    this._updateInput();
+  }
+
+  /**
+   * Gets the maximum value.
+   */
+  get max(): number {
+    return this._max;
+  }
+
+  /**
+   * Sets the maximum value.
+   */
+  set max(value: number) {
+    this._max = value;
+    this._updateInput();
+  }
+
+  /**
+   * Gets the step between values.
+   */
+  get step(): number {
+    return this._step;
+  }
+
+  /**
+   * Sets the step between values.
+   */
+  set step(value: number) {
+    this._step = value;
+    this._updateInput();
+  }
+
+  /**
+   * Keeps the keys that adjust the value from the menu while the input has focus.
+   */
+  claimsKey(ev: KeyboardEvent): boolean {
+    const keys = this._inputType === "number" ? NUMBER_KEYS : RANGE_KEYS;
+    return keys.includes(ev.key);
+  }
+
+  protected _createContent(): HTMLElement {
+    const range = createElement("div", { class: styles.range });
+
+    const startEl = createSlotElement(this._start, {
+      className: itemStyles.start
+    });
+    if (startEl) range.appendChild(startEl);
+
+    const labelEl = createElement("span", { class: styles.label }, range);
+    labelEl.textContent = this._label;
+
+    const input = createElement(
+      "input",
+      {
+        class: this._inputType === "range" ? styles.input : styles.number,
+        type: this._inputType
+      },
+      range
+    ) as HTMLInputElement;
+
+    // A number field shows its own value
+    const valueEl =
+      this._inputType === "range"
+        ? createElement(
+            "span",
+            {
+              class: `${itemStyles.end} ${styles.value}`,
+              "aria-hidden": "true"
+            },
+            range
+          )
+        : null;
+
+    this._handlers.input = this._handleInput.bind(this) as EventListener;
+    this._handlers.change = this._handleChange.bind(this) as EventListener;
+    input.addEventListener("input", this._handlers.input);
+    input.addEventListener("change", this._handlers.change);
+
+    this._labelEl = labelEl;
+    this._inputEl = input;
+    this._valueEl = valueEl;
+
+    this._updateInput();
+    return range;
+  }
+
+  protected _update(ctx: ContextMenuContext): void {
+    if (typeof this._valueOption === "function") {
+      this._value = this._valueOption(ctx);
+    }
+    this._updateInput();
+  }
+
+  protected _destroy(): void {
+    if (this._inputEl) {
+      for (const [event, handler] of Object.entries(this._handlers)) {
+        if (!handler) continue;
+
+        this._inputEl.removeEventListener(event, handler);
+        this._handlers[event] = null;
+      }
+    }
+
+    this._labelEl = null;
+    this._inputEl = null;
+    this._valueEl = null;
+  }
+
+  private _updateInput(): void {
+    if (!this._inputEl) return;
+
+    this._inputEl.min = String(this._min);
+    this._inputEl.max = String(this._max);
+    this._inputEl.step = String(this._step);
+    this._inputEl.value = String(this._value);
+    this._inputEl.setAttribute("aria-label", this._label);
+    this._updateValueText();
+  }
+
+  private _updateValueText(): void {
+    if (!this._inputEl || !this._valueEl) return;
+
+    const text = this._format(this._value);
+    this._inputEl.setAttribute("aria-valuetext", text);
+    this._valueEl.textContent = text;
+  }
+
+  private _handleInput(ev: Event): void {
+    // Number fields are empty or partly typed, e.g. "-", while being edited
+    const value = this._inputEl!.valueAsNumber;
+    if (Number.isNaN(value)) return;
+
+    this._value = value;
+    this._updateValueText();
+    this._fireValueEvent("input", ev);
+  }
+
+  private _handleChange(ev: Event): void {
+    const value = this._inputEl!.valueAsNumber;
+    if (!Number.isNaN(value)) {
+      this._value = Math.min(Math.max(value, this._min), this._max);
+    }
+
+    // Show the committed value in place of a cleared or out of range entry
+    this._updateInput();
+    this._fireValueEvent("change", ev);
+  }
+
+  private _fireValueEvent(
+    type: "input" | "change",
+    originalEvent: Event
+  ): void {
+    if (!this._currentCtx) return;
+
+    const { event, map } = this._currentCtx;
+    this.fire(type, {
+      type,
+      target: this,
+      originalEvent,
+      point: event.point,
+      lngLat: event.lngLat,
+      features: event.features,
+      feature: contextFeature(this._currentCtx),
+      map,
+      value: this._value
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuRangeItem";
+export type { ContextMenuRangeItemOptions } from "./ContextMenuRangeItem";
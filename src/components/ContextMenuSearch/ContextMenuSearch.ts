@@ -0,0 +1,198 @@
+import type { ContextMenuContext } from "../../types";
+import { createElement } from "../../util/dom";
+import styles from "./ContextMenuSearch.module.scss";
+
+/**
+ * Configuration options for creating a context menu search item.
+ */
+export interface ContextMenuSearchOptions {
+  /** Placeholder text for the input. Defaults to "Search…". */
+  placeholder?: string;
+  /** Accessible label for the input. Defaults to the placeholder. */
+  ariaLabel?: string;
+  /** Custom CSS class name for the `<li>` element. */
+  className?: string;
+}
+
+/**
+ * A text input that filters the other items in its menu by label as the user types.
+ *
+ * Add it as the first item of a menu or submenu. Labels and separators left without
+ * matching items are hidden, ArrowDown moves from the input into the results, and
+ * Enter activates the first match. In a submenu, ArrowLeft at the start of the input
+ * goes back to the parent menu. The filter is cleared each time the menu is shown.
+ *
+ * @example
+ * ```ts
+ * const layers = new ContextMenuSubmenu({ label: "Layers" });
+ * layers.addItem(new ContextMenuSearch({ placeholder: "Find layer…" }));
+ * for (const layer of map.getStyle().layers) {
+ *   layers.addItem(new ContextMenuItem({ label: layer.id }));
+ * }
+ * ```
+ */
+export default class ContextMenuSearch {
+  private _placeholder: string;
+  private _ariaLabel: string | undefined;
+  private _className: string;
+  private _value: string = "";
+  private _onQueryChange: ((query: string) => void) | null = null;
+
+  private _liEl: HTMLElement | null = null;
+  private _inputEl: HTMLInputElement | null = null;
+
+  private _handlers: Record<string, EventListener | null> = {};
+
+  /**
+   * Creates a new search item.
+   * @param options - Configuration options for the search item.
+   * @param options.placeholder - Placeholder text for the input. Defaults to "Search…".
+   * @param options.ariaLabel - Accessible label for the input. Defaults to the placeholder.
+   * @param options.className - Custom CSS class name for the `<li>` element.
+   */
+  constructor(options?: ContextMenuSearchOptions) {
+    this._placeholder = options?.placeholder ?? "Search…";
+    this._ariaLabel = options?.ariaLabel;
+    this._className = options?.className
+      ? `${styles.search} ${options.className}`
+      : styles.search;
+  }
+
+  /**
+   * Gets the current search text.
+   */
+  get value(): string {
+    return this._value;
+  }
+
+  /**
+   * Sets the search text and filters the menu by it.
+   */
+  set value(value: string) {
+    this._value = value;
+    if (this._inputEl) {
+      this._inputEl.value = value;
+    }
+    this._onQueryChange?.(value);
+  }
+
+  /**
+   * Gets the placeholder text of the input.
+   */
+  get placeholder(): string {
+    return this._placeholder;
+  }
+
+  /**
+   * Sets the placeholder text of the input.
+   */
+  set placeholder(value: string) {
+    this._placeholder = value;
+    this._updateInputLabels();
+  }
+
+  /**
+   * Set a callback to be invoked when the search text changes.
+   * Used by the containing menu to filter its items.
+   * @internal
+   */
+  set onQueryChange(callback: ((query: string) => void) | null) {
+    this._onQueryChange = callback;
+  }
+
+  /**
+   * The item's `<li>` element, once it has been rendered.
+   * @internal
+   */
+  get element(): HTMLElement | null {
+    return this._liEl;
+  }
+
+  /**
+   * @internal
+   */
+  render(parent: HTMLElement, _ctx: ContextMenuContext): HTMLElement {
+    if (!this._liEl) {
+      this._setupUI();
+    }
+
+    const liEl = this._liEl!;
+    if (liEl.parentElement !== parent) {
+      parent.appendChild(liEl);
+    }
+
+    return liEl;
+  }
+
+  /**
+   * Moves keyboard focus to the input.
+   */
+  focus(): void {
+    this._inputEl?.focus();
+  }
+
+  /**
+   * Called when keyboard focus moves to another item. The input needs no focused
+   * styling of its own, and keeps focus when the pointer leaves the menu.
+   */
+  blur(): void {}
+
+  /**
+   * Removes the search item from the DOM, cleaning up event listeners.
+   * @returns The search item instance for method chaining.
+   */
+  remove(): this {
+    if (this._inputEl && this._handlers.input) {
+      this._inputEl.removeEventListener("input", this._handlers.input);
+      this._handlers.input = null;
+    }
+
+    this._liEl?.remove();
+    this._liEl = null;
+    this._inputEl = null;
+    this._onQueryChange = null;
+    return this;
+  }
+
+  private _setupUI(): void {
+    const li = createElement("li", {
+      class: this._className,
+      role: "none"
+    });
+
+    const input = createElement(
+      "input",
+      {
+        class: styles.input,
+        type: "search",
+        autocomplete: "off",
+        spellcheck: "false"
+      },
+      li
+    ) as HTMLInputElement;
+    input.value = this._value;
+
+    this._handlers.input = this._handleInput.bind(this) as EventListener;
+    input.addEventListener("input", this._handlers.input);
+
+    this._liEl = li;
+    this._inputEl = input;
+
+    this._updateInputLabels();
+  }
+
+  private _updateInputLabels(): void {
+    if (!this._inputEl) return;
+
+    this._inputEl.placeholder = this._placeholder;
+    this._inputEl.setAttribute(
+      "aria-label",
+      this._ariaLabel ?? this._placeholder
+    );
+  }
+
+  private _handleInput(): void {
+    this._value = this._inputEl!.value;
+    this._onQueryChange?.(this._value);
+  }
+}
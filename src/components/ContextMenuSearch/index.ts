@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuSearch";
+export type { ContextMenuSearchOptions } from "./ContextMenuSearch";
@@ -24,6 +24,7 @@ export interface ContextMenuSeparatorOptions {
 export default class ContextMenuSeparator {
   private _className: string;
   private _liEl: HTMLElement | null = null;
+  private _collapsed: boolean = false;
 
   /**
    * Creates a new separator.
@@ -36,6 +37,25 @@ export default class ContextMenuSeparator {
       : styles.separator;
   }
 
+  /**
+   * Whether the separator is collapsed because it has no visible items on one side.
+   * @internal
+   */
+  set collapsed(value: boolean) {
+    this._collapsed = value;
+    if (this._liEl) {
+      this._liEl.hidden = value;
+    }
+  }
+
+  /**
+   * The item's `<li>` element, once it has been rendered.
+   * @internal
+   */
+  get element(): HTMLElement | null {
+    return this._liEl;
+  }
+
   /**
    * @internal
    */
@@ -58,6 +78,7 @@ export default class ContextMenuSeparator {
       role: "separator",
       "aria-orientation": "horizontal"
     });
+    li.hidden = this._collapsed;
 
     this._liEl = li;
   }
@@ -1,4 +1,9 @@
-import type { ContextMenuContext, MenuItem } from "../../types";
+import type {
+  ContextMenuContext,
+  ItemsProvider,
+  ItemsProviderOptions,
+  MenuItem
+} from "../../types";
 import ContextMenuItem, {
   type ContextMenuItemOptions
 } from "../ContextMenuItem/ContextMenuItem";
@@ -9,6 +14,32 @@ import itemStyles from "../ContextMenuItem/ContextMenuItem.module.scss";
 /** Horizontal overlap between submenu and parent menu item (in pixels) */
 const SUBMENU_OVERLAP = 6;
 
+/** Extra height added above and below the child menu when checking hover intent (in pixels) */
+const SUBMENU_AIM_TOLERANCE = 20;
+
+/** Number of recent pointer positions kept for hover-intent tracking */
+const POINTER_HISTORY_SIZE = 3;
+
+type PointerPosition = { x: number; y: number };
+
+function sign(p1: PointerPosition, p2: PointerPosition, p3: PointerPosition) {
+  return (p1.x - p3.x) * (p2.y - p3.y) - (p2.x - p3.x) * (p1.y - p3.y);
+}
+
+function isInTriangle(
+  p: PointerPosition,
+  a: PointerPosition,
+  b: PointerPosition,
+  c: PointerPosition
+): boolean {
+  const d1 = sign(p, a, b);
+  const d2 = sign(p, b, c);
+  const d3 = sign(p, c, a);
+  const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(hasNegative && hasPositive);
+}
+
 /**
  * Configuration options for creating a context menu submenu.
  * Extends {@link ContextMenuItemOptions} with submenu-specific timing options.
@@ -16,7 +47,10 @@ const SUBMENU_OVERLAP = 6;
 export interface ContextMenuSubmenuOptions extends ContextMenuItemOptions {
   /** Delay in milliseconds before showing the submenu on hover. Defaults to 300. */
   showDelay?: number;
-  /** Delay in milliseconds before hiding the submenu when mouse leaves. Defaults to 200. */
+  /**
+   * Delay in milliseconds before hiding the submenu when mouse leaves. While the pointer
+   * keeps moving toward the submenu, hiding is put off by this delay again. Defaults to 200.
+   */
   hideDelay?: number;
 }
 
@@ -24,7 +58,7 @@ export interface ContextMenuSubmenuOptions extends ContextMenuItemOptions {
  * A context menu item that displays a submenu when hovered or clicked.
  *
  * Submenus extend regular menu items and can contain their own menu items, shown in a child menu.
- * They display a chevron icon to indicate that child items are available.
+ * Submenus can be nested to any depth. They display a chevron icon to indicate that child items are available.
  * Submenus open on hover (with a delay) or on click, and can be navigated
  * using keyboard controls.
  *
@@ -51,7 +85,12 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
   private _submenu: ContextMenu;
   private _chevronEl: HTMLSpanElement | null = null;
   private _hoverTimeout: number | null = null;
+  private _closeTimeout: number | null = null;
+  private _pointerHistory: PointerPosition[] = [];
+  private _lastAimCheck: PointerPosition | null = null;
+  private _documentMousemove: ((ev: MouseEvent) => void) | null = null;
   private _submenuContainer: HTMLElement | null = null;
+  private _parentMenu: ContextMenu | null = null;
   private _isPinned: boolean = false;
   private _showDelay: number;
   private _hideDelay: number;
@@ -71,10 +110,22 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
   constructor(options: ContextMenuSubmenuOptions) {
     super(options);
     this._submenu = new ContextMenu();
+    // Report provider failures on the menu the submenu is shown in
+    this._submenu.on("error", (event) => {
+      this._parentMenu?.fire("error", event);
+    });
     this._showDelay = options.showDelay ?? 300;
     this._hideDelay = options.hideDelay ?? 200;
   }
 
+  /**
+   * Gets the submenu items.
+   * @returns The submenu items.
+   */
+  get items(): readonly MenuItem[] {
+    return this._submenu.items;
+  }
+
   /**
    * Adds a menu item to the submenu.
    * @param item - The menu item to add. Can be a `ContextMenuItem` or `ContextMenuSeparator`.
@@ -106,6 +157,46 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
     return this;
   }
 
+  /**
+   * Empties the submenu without removing its items, for items that are also shown
+   * in another menu.
+   * @internal
+   */
+  releaseItems(): void {
+    this._submenu.releaseItems();
+  }
+
+  /**
+   * Whether the submenu is open.
+   * @internal
+   */
+  get submenuOpen(): boolean {
+    return this._submenu.isOpen;
+  }
+
+  /**
+   * The menu this submenu item is shown in.
+   * @internal
+   */
+  set parentMenu(value: ContextMenu | null) {
+    this._parentMenu = value;
+  }
+
+  /**
+   * Sets a provider for submenu items that are loaded when the submenu opens.
+   * Pass `{ cache: true }` to load the children lazily, the first time the submenu opens.
+   * @param provider - A function returning the items (or a promise of them) for the current context, or `null` to remove the provider.
+   * @param options - Optional settings for the provider. See {@link ContextMenu.setItemsProvider}.
+   * @returns The submenu instance for method chaining.
+   */
+  setItemsProvider(
+    provider: ItemsProvider | null,
+    options?: ItemsProviderOptions
+  ): this {
+    this._submenu.setItemsProvider(provider, options);
+    return this;
+  }
+
   /**
    * @internal
    */
@@ -119,7 +210,14 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
     }
 
     if (!this._submenuContainer) {
-      const { map, menuWidth, menuTheme, menuClassName } = ctx;
+      const {
+        map,
+        menuWidth,
+        menuTheme,
+        menuClassName,
+        menuWrapFocus,
+        menuMaxHeight
+      } = ctx;
 
       this._submenuContainer = map.getContainer();
       this._submenu.addTo(this._submenuContainer);
@@ -135,6 +233,19 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
       if (menuClassName !== undefined) {
         this._submenu.className = menuClassName;
       }
+
+      if (menuWrapFocus !== undefined) {
+        this._submenu.wrapFocus = menuWrapFocus;
+      }
+
+      if (menuMaxHeight !== undefined) {
+        this._submenu.maxHeight = menuMaxHeight;
+      }
+    }
+
+    // Show items added to the submenu while it is open
+    if (this._submenu.isOpen) {
+      this._submenu.refresh();
     }
 
     return liEl;
@@ -143,10 +254,12 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
   remove(): this {
     this._removeEventListeners();
     this._cancelOpen();
+    this._cancelClose();
     this.closeSubmenu();
     this._submenu.remove();
     super.remove();
     this._submenuContainer = null;
+    this._parentMenu = null;
     return this;
   }
 
@@ -163,11 +276,47 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
       );
       this._handlers.submenuMouseleave = null;
     }
+    this._cancelClose();
+    this._stopPointerTracking();
     this._submenu.hide();
     this._isPinned = false;
     this._buttonEl?.classList.remove(itemStyles.focusedParent);
   }
 
+  /**
+   * Whether the pointer is moving toward the open child menu, so hovering other items
+   * on the way there should not close it.
+   *
+   * The pointer is heading for the child menu if it lies inside the triangle formed by
+   * its previous position and the near corners of the child menu. A pointer that has
+   * not moved since the last check is treated as having stopped aiming.
+   * @internal
+   */
+  isAimingAtSubmenu(): boolean {
+    const submenuEl = this._submenu.menuElement;
+    if (!submenuEl || !this._submenu.isOpen) return false;
+    if (this._pointerHistory.length < 2) return false;
+
+    const current = this._pointerHistory[this._pointerHistory.length - 1];
+    const previous = this._pointerHistory[0];
+
+    if (
+      this._lastAimCheck &&
+      this._lastAimCheck.x === current.x &&
+      this._lastAimCheck.y === current.y
+    ) {
+      return false;
+    }
+    this._lastAimCheck = current;
+
+    const rect = submenuEl.getBoundingClientRect();
+    const edgeX = this._submenu.openedLeft ? rect.right : rect.left;
+    const top = { x: edgeX, y: rect.top - SUBMENU_AIM_TOLERANCE };
+    const bottom = { x: edgeX, y: rect.bottom + SUBMENU_AIM_TOLERANCE };
+
+    return isInTriangle(current, previous, top, bottom);
+  }
+
   private _handleMouseenter(): void {
     this._scheduleOpen();
   }
@@ -181,8 +330,7 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
     ev.preventDefault();
     ev.stopPropagation();
 
-    const submenuEl = this._submenu.menuElement;
-    if (submenuEl?.classList.contains("visible")) {
+    if (this._submenu.isOpen) {
       this.closeSubmenu();
     } else {
       this._openSubmenu();
@@ -202,15 +350,41 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
     // Remove focused class since focusedParent is now applied by _openSubmenu
     this._buttonEl?.classList.remove(itemStyles.focused);
 
-    // Set up callback so ArrowLeft returns focus to this item
-    this._submenu.onEscapeLeft = () => {
-      this.closeSubmenu();
-      this.focus();
-    };
-
     this._submenu.focusFirstItem();
   }
 
+  /**
+   * Whether the pointer is over this submenu's child menu or any submenu nested in it.
+   * @internal
+   */
+  isHoveringSubmenu(): boolean {
+    const submenuEl = this._submenu.menuElement;
+    if (!submenuEl || !this._submenu.isOpen) return false;
+
+    return (
+      submenuEl.matches(":hover") ||
+      this._submenu.flatItems.some(
+        (item) => item instanceof ContextMenuSubmenu && item.isHoveringSubmenu()
+      )
+    );
+  }
+
+  /**
+   * Whether focus is in this submenu's child menu or any submenu nested in it.
+   * @internal
+   */
+  hasSubmenuFocus(): boolean {
+    const submenuEl = this._submenu.menuElement;
+    if (!submenuEl || !this._submenu.isOpen) return false;
+
+    return (
+      submenuEl.contains(document.activeElement) ||
+      this._submenu.flatItems.some(
+        (item) => item instanceof ContextMenuSubmenu && item.hasSubmenuFocus()
+      )
+    );
+  }
+
   protected _addEventListeners(): void {
     // Don't call super - we want our own unified click handler for submenu toggling
     if (!this._buttonEl) return;
@@ -255,22 +429,20 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
     )
       return;
 
-    // Prevent nested submenus - check if any item in submenu is also a submenu
-    const hasNestedSubmenu = this._submenu.items.some(
-      (item) => item instanceof ContextMenuSubmenu
-    );
-    if (hasNestedSubmenu) {
-      return; // Don't allow nested submenus
-    }
-
-    // Close any other open submenus
+    // Close sibling submenus in the same parent menu
     this._closeOtherSubmenus();
 
+    // Set up callback so ArrowLeft returns focus to this item
+    this._submenu.onEscapeLeft = () => {
+      this.closeSubmenu();
+      this.focus();
+    };
+
     const liRect = this._liEl!.getBoundingClientRect();
     const containerRect = this._submenuContainer.getBoundingClientRect();
 
-    // Initial position to the right of the menu item
-    let x = liRect.right - containerRect.left - SUBMENU_OVERLAP;
+    const rightX = liRect.right - containerRect.left - SUBMENU_OVERLAP;
+    let x = rightX;
     let y = liRect.top - containerRect.top;
 
     // Show submenu first so items are rendered and we can measure
@@ -291,11 +463,26 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
       const submenuWidth = submenuEl.offsetWidth;
       const submenuHeight = submenuEl.offsetHeight;
 
-      // Check if submenu would go off-screen to the right
-      if (x + submenuWidth > containerRect.width) {
-        // Position to the left instead
-        x = liRect.left - containerRect.left - submenuWidth;
+      const leftX =
+        liRect.left - containerRect.left - submenuWidth + SUBMENU_OVERLAP;
+      const fitsRight = rightX + submenuWidth <= containerRect.width;
+      const fitsLeft = leftX >= 0;
+
+      // Keep opening in the parent's direction while it fits, so a chain of
+      // submenus doesn't zigzag across the parent
+      const openLeft = this._parentMenu?.openedLeft
+        ? fitsLeft || !fitsRight
+        : !fitsRight && fitsLeft;
+
+      if (openLeft) {
+        x = leftX;
+      } else if (!fitsRight) {
+        x = containerRect.width - submenuWidth;
       }
+      if (x < 0) {
+        x = 0;
+      }
+      this._submenu.openedLeft = openLeft;
 
       // Check if submenu would go off-screen vertically
       if (y + submenuHeight > containerRect.height) {
@@ -312,6 +499,8 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
     // Show submenu item as active while child menu is open
     this._buttonEl?.classList.add(itemStyles.focusedParent);
 
+    this._startPointerTracking();
+
     // Add mouseleave handler on child menu to close when mouse leaves both
     if (submenuEl && !this._handlers.submenuMouseleave) {
       this._handlers.submenuMouseleave =
@@ -337,34 +526,63 @@ export default class ContextMenuSubmenu extends ContextMenuItem {
 
   private _scheduleClose(): void {
     if (this._isPinned) return;
-    setTimeout(() => {
-      if (!this._isHovering() && !this._isPinned) {
-        this.closeSubmenu();
+
+    this._cancelClose();
+    this._closeTimeout = window.setTimeout(() => {
+      this._closeTimeout = null;
+      if (this._isHovering() || this._isPinned) return;
+
+      // Still on its way to the child menu, so check again later
+      if (this.isAimingAtSubmenu()) {
+        this._scheduleClose();
+        return;
       }
+
+      this.closeSubmenu();
     }, this._hideDelay);
   }
 
+  private _cancelClose(): void {
+    if (this._closeTimeout !== null) {
+      clearTimeout(this._closeTimeout);
+      this._closeTimeout = null;
+    }
+  }
+
+  private _startPointerTracking(): void {
+    if (this._documentMousemove) return;
+
+    this._pointerHistory = [];
+    this._lastAimCheck = null;
+    this._documentMousemove = (ev: MouseEvent) => {
+      this._pointerHistory.push({ x: ev.clientX, y: ev.clientY });
+      if (this._pointerHistory.length > POINTER_HISTORY_SIZE) {
+        this._pointerHistory.shift();
+      }
+    };
+    document.addEventListener("mousemove", this._documentMousemove);
+  }
+
+  private _stopPointerTracking(): void {
+    if (!this._documentMousemove) return;
+
+    document.removeEventListener("mousemove", this._documentMousemove);
+    this._documentMousemove = null;
+    this._pointerHistory = [];
+    this._lastAimCheck = null;
+  }
+
   private _isHovering(): boolean {
     if (!this._buttonEl) return false;
-    const submenuEl = this._submenu.menuElement;
-    if (!submenuEl) return false;
-    return this._buttonEl.matches(":hover") || submenuEl.matches(":hover");
+    return this._buttonEl.matches(":hover") || this.isHoveringSubmenu();
   }
 
   private _closeOtherSubmenus(): void {
-    if (!this._submenuContainer) return;
-
-    // Close all other visible submenus
-    const visibleSubmenus =
-      this._submenuContainer.querySelectorAll(`menu.visible`);
-    const currentSubmenuEl = this._submenu.menuElement;
-    visibleSubmenus.forEach((submenu) => {
-      const submenuEl = submenu as HTMLElement;
-      if (submenuEl !== currentSubmenuEl) {
-        submenuEl.classList.remove("visible");
-        submenuEl.style.opacity = "0";
-        submenuEl.style.pointerEvents = "none";
-        submenuEl.style.visibility = "hidden";
+    if (!this._parentMenu) return;
+
+    this._parentMenu.flatItems.forEach((item) => {
+      if (item !== this && item instanceof ContextMenuSubmenu) {
+        item.closeSubmenu();
       }
     });
   }
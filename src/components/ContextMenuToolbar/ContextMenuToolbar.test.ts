@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ContextMenuContext } from "../../types";
+import ContextMenu from "../ContextMenu/ContextMenu";
+import ContextMenuSubmenu from "../ContextMenuSubmenu";
+import ContextMenuToolbarButton from "../ContextMenuToolbarButton";
+import ContextMenuToolbar from "./ContextMenuToolbar";
+
+function press(key: string): void {
+  (document.activeElement ?? document.body).dispatchEvent(
+    new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true })
+  );
+}
+
+function createToolbar(): ContextMenuToolbar {
+  return new ContextMenuToolbar({
+    buttons: ["Copy", "Share", "Bookmark"].map(
+      (label) => new ContextMenuToolbarButton({ label, icon: "icon" })
+    )
+  });
+}
+
+function focusedButton(): string | null | undefined {
+  return document.activeElement?.getAttribute("aria-label");
+}
+
+describe("ContextMenuToolbar", () => {
+  let container: HTMLElement;
+  let menu: ContextMenu;
+
+  function showMenu(
+    items: Array<ContextMenuToolbar | ContextMenuSubmenu>,
+    wrap = false
+  ): void {
+    menu = new ContextMenu({ wrapFocus: wrap });
+    items.forEach((item) => menu.addItem(item));
+    menu.addTo(container);
+    menu.show(0, 0, {
+      map: { getContainer: () => container },
+      event: { point: { x: 0, y: 0 }, lngLat: { lng: 0, lat: 0 } },
+      menuWrapFocus: wrap
+    } as unknown as ContextMenuContext);
+  }
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    menu.remove();
+    container.remove();
+  });
+
+  it("moves between buttons and stops at the ends of the row", () => {
+    showMenu([createToolbar()]);
+
+    press("ArrowDown");
+    expect(focusedButton()).toBe("Copy");
+
+    press("ArrowLeft");
+    expect(focusedButton()).toBe("Copy");
+
+    press("ArrowRight");
+    press("ArrowRight");
+    press("ArrowRight");
+    expect(focusedButton()).toBe("Bookmark");
+  });
+
+  it("wraps around the row when the menu's focus wraps", () => {
+    showMenu([createToolbar()], true);
+
+    press("ArrowDown");
+    press("ArrowLeft");
+    expect(focusedButton()).toBe("Bookmark");
+
+    press("ArrowRight");
+    expect(focusedButton()).toBe("Copy");
+  });
+
+  it("only claims the arrow keys with a button to move to", () => {
+    const toolbar = createToolbar();
+    showMenu([toolbar]);
+    press("ArrowDown");
+
+    const key = (key: string) => new KeyboardEvent("keydown", { key });
+    expect(toolbar.claimsKey(key("ArrowLeft"))).toBe(false);
+    expect(toolbar.claimsKey(key("ArrowRight"))).toBe(true);
+    expect(toolbar.claimsKey(key("ArrowDown"))).toBe(false);
+  });
+
+  it("leaves a submenu with ArrowLeft from the first button", () => {
+    const submenu = new ContextMenuSubmenu({ label: "More" });
+    submenu.addItem(createToolbar());
+    showMenu([submenu]);
+
+    press("ArrowDown");
+    press("ArrowRight");
+    expect(submenu.submenuOpen).toBe(true);
+    expect(focusedButton()).toBe("Copy");
+
+    press("ArrowLeft");
+    expect(submenu.submenuOpen).toBe(false);
+  });
+});
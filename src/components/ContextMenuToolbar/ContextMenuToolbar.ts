@@ -0,0 +1,281 @@
+import type { ContextMenuContext } from "../../types";
+import { createElement } from "../../util/dom";
+import ContextMenuCustomItem, {
+  type ContextMenuCustomItemOptions
+} from "../ContextMenuCustomItem/ContextMenuCustomItem";
+import ContextMenuToolbarButton from "../ContextMenuToolbarButton";
+import styles from "./ContextMenuToolbar.module.scss";
+
+/**
+ * Configuration options for creating a toolbar.
+ * Extends {@link ContextMenuCustomItemOptions} with the toolbar's buttons.
+ */
+export interface ContextMenuToolbarOptions extends ContextMenuCustomItemOptions {
+  /** The buttons in the toolbar. */
+  buttons?: ContextMenuToolbarButton[];
+  /** Accessible label for the toolbar, e.g. "Quick actions". */
+  ariaLabel?: string;
+  /** Whether the menu stays open after a button is clicked. Defaults to `false`. */
+  keepOpen?: boolean;
+}
+
+/**
+ * A row of icon-only buttons, such as copy, share and bookmark, usually placed at
+ * the top of the menu.
+ *
+ * The toolbar is a single stop in the menu's keyboard navigation: ArrowUp and
+ * ArrowDown move into and out of the row, and ArrowLeft and ArrowRight move
+ * between its buttons. They wrap around the row only when the menu's focus
+ * wraps, so ArrowLeft on the first button still leaves a submenu. Each button shows its label in a tooltip while it is
+ * hovered or focused, and fires its own "click" event.
+ *
+ * @example
+ * ```ts
+ * const copy = new ContextMenuToolbarButton({
+ *   label: "Copy coordinates",
+ *   icon: { className: "fa-solid fa-copy" }
+ * });
+ * copy.on("click", ({ lngLat }) => {
+ *   navigator.clipboard.writeText(`${lngLat.lat}, ${lngLat.lng}`);
+ * });
+ *
+ * const bookmark = new ContextMenuToolbarButton({
+ *   label: "Bookmark",
+ *   icon: { className: "fa-solid fa-bookmark" }
+ * });
+ *
+ * menu.addItem(new ContextMenuToolbar({ buttons: [copy, bookmark] }));
+ * ```
+ */
+export default class ContextMenuToolbar extends ContextMenuCustomItem {
+  private _buttons: ContextMenuToolbarButton[];
+  private _ariaLabel: string | undefined;
+  private _keepOpen: boolean;
+  private _activeIndex: number = -1;
+  private _wrapFocus: boolean = false;
+
+  private _rowEl: HTMLElement | null = null;
+
+  private _handlers: Record<string, EventListener | null> = {};
+
+  /**
+   * Creates a new toolbar.
+   * @param options - Configuration options for the toolbar.
+   * @param options.buttons - The buttons in the toolbar.
+   * @param options.ariaLabel - Accessible label for the toolbar.
+   * @param options.keepOpen - Whether the menu stays open after a button is clicked. Defaults to `false`.
+   * @param options.disabled - Whether the toolbar is disabled. Defaults to `false`.
+   * @param options.hidden - Whether the toolbar is hidden. Defaults to `false`.
+   * @param options.className - Custom CSS class name for the `<li>` element.
+   */
+  constructor(options?: ContextMenuToolbarOptions) {
+    super(options);
+    this._buttons = options?.buttons ? [...options.buttons] : [];
+    this._ariaLabel = options?.ariaLabel;
+    this._keepOpen = options?.keepOpen ?? false;
+  }
+
+  /**
+   * Gets the buttons in the toolbar.
+   * @returns A read-only array of the buttons.
+   */
+  get buttons(): readonly ContextMenuToolbarButton[] {
+    return this._buttons;
+  }
+
+  /**
+   * Whether keyboard navigation stops at the toolbar, which needs at least one
+   * enabled button.
+   */
+  get isFocusable(): boolean {
+    return super.isFocusable && this._buttons.some((b) => b.isFocusable);
+  }
+
+  /**
+   * Adds a button to the end of the toolbar.
+   * @param button - The button to add.
+   * @returns The toolbar instance for method chaining.
+   */
+  addButton(button: ContextMenuToolbarButton): this {
+    this._buttons.push(button);
+    return this;
+  }
+
+  /**
+   * Inserts a button at the specified index.
+   * @param index - The index at which to insert the button. If the index is out of bounds, the button will be added at the end.
+   * @param button - The button to insert.
+   * @returns The toolbar instance for method chaining.
+   */
+  insertButton(index: number, button: ContextMenuToolbarButton): this {
+    this._buttons.splice(index, 0, button);
+    return this;
+  }
+
+  /**
+   * Removes a button from the toolbar, doing any clean up necessary.
+   * @param button - The button to remove.
+   * @returns The toolbar instance for method chaining.
+   */
+  removeButton(button: ContextMenuToolbarButton): this {
+    const index = this._buttons.indexOf(button);
+    if (index !== -1) {
+      this._buttons.splice(index, 1);
+      button.remove();
+    }
+    return this;
+  }
+
+  /**
+   * Keeps ArrowLeft and ArrowRight from the menu while there is a button to move to.
+   */
+  claimsKey(ev: KeyboardEvent): boolean {
+    return this._findNextButton(ev) !== undefined;
+  }
+
+  /**
+   * Closes the menu after a button is clicked, unless `keepOpen` is set.
+   */
+  closesMenuOnClick(ev: MouseEvent): boolean {
+    if (this._keepOpen) return false;
+
+    const button = this._findButton(ev.target);
+    return !!button && !button.disabled;
+  }
+
+  /**
+   * Focuses the button that last had focus, or the first enabled button.
+   * Only works if the toolbar is not `disabled`.
+   */
+  focus(): void {
+    if (!this._liEl || this._disabled) return;
+
+    this._buttons[this._activeIndex]?.focus();
+  }
+
+  /**
+   * Hides the tooltip of the focused button.
+   */
+  blur(): void {
+    super.blur();
+    this._buttons[this._activeIndex]?.blur();
+  }
+
+  protected _createContent(): HTMLElement {
+    const row = createElement("div", {
+      role: "group",
+      class: styles.toolbar
+    });
+    if (this._ariaLabel) {
+      row.setAttribute("aria-label", this._ariaLabel);
+    }
+
+    this._handlers.keydown = this._handleKeydown.bind(this) as EventListener;
+    this._handlers.mouseover = this._handleMouseover.bind(
+      this
+    ) as EventListener;
+    this._handlers.focusin = this._handleFocusin.bind(this) as EventListener;
+
+    for (const [event, handler] of Object.entries(this._handlers)) {
+      row.addEventListener(event, handler!);
+    }
+
+    this._rowEl = row;
+    return row;
+  }
+
+  protected _update(ctx: ContextMenuContext): void {
+    if (!this._rowEl) return;
+
+    const row = this._rowEl;
+    row.replaceChildren(
+      ...this._buttons.map((button) => button.render(row, ctx))
+    );
+
+    // Start at the first enabled button each time the menu is shown
+    this._activeIndex = this._buttons.findIndex((b) => b.isFocusable);
+    this._wrapFocus = ctx.menuWrapFocus ?? false;
+  }
+
+  protected _destroy(): void {
+    if (this._rowEl) {
+      for (const [event, handler] of Object.entries(this._handlers)) {
+        if (!handler) continue;
+
+        this._rowEl.removeEventListener(event, handler);
+        this._handlers[event] = null;
+      }
+    }
+
+    this._buttons.forEach((button) => button.remove());
+    this._rowEl = null;
+    this._activeIndex = -1;
+  }
+
+  private _findButton(
+    target: EventTarget | null
+  ): ContextMenuToolbarButton | undefined {
+    if (!(target instanceof Element)) return undefined;
+
+    const el = target.closest("button");
+    return el ? this._buttons.find((b) => b.element === el) : undefined;
+  }
+
+  private _focusButton(button: ContextMenuToolbarButton): void {
+    const index = this._buttons.indexOf(button);
+    if (index !== this._activeIndex) {
+      this._buttons[this._activeIndex]?.blur();
+      this._activeIndex = index;
+    }
+    button.focus();
+  }
+
+  /**
+   * Finds the enabled button ArrowLeft or ArrowRight moves to, wrapping around the
+   * row only if the menu's focus wraps.
+   * @returns The button, or `undefined` for other keys or at the end of the row.
+   */
+  private _findNextButton(
+    ev: KeyboardEvent
+  ): ContextMenuToolbarButton | undefined {
+    if (ev.key !== "ArrowLeft" && ev.key !== "ArrowRight") return undefined;
+
+    const enabled = this._buttons.filter((b) => b.isFocusable);
+    const current = enabled.indexOf(this._buttons[this._activeIndex]);
+    let next = current + (ev.key === "ArrowRight" ? 1 : -1);
+    if (this._wrapFocus && enabled.length > 0) {
+      next = (next + enabled.length) % enabled.length;
+    }
+
+    return next !== current ? enabled[next] : undefined;
+  }
+
+  private _handleKeydown(ev: KeyboardEvent): void {
+    // At the end of the row, leave the key to the menu, e.g. to close a submenu
+    const next = this._findNextButton(ev);
+    if (!next) return;
+
+    ev.preventDefault();
+    this._focusButton(next);
+  }
+
+  private _handleMouseover(ev: MouseEvent): void {
+    const button = this._findButton(ev.target);
+    if (!button?.isFocusable) return;
+
+    // Only move focus within the row once the menu has focused the toolbar,
+    // which it does itself after any submenu hover intent delay
+    if (this._liEl?.contains(document.activeElement)) {
+      this._focusButton(button);
+    } else {
+      this._activeIndex = this._buttons.indexOf(button);
+    }
+  }
+
+  private _handleFocusin(ev: FocusEvent): void {
+    const button = this._findButton(ev.target);
+    if (button && this._buttons.indexOf(button) !== this._activeIndex) {
+      this._focusButton(button);
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuToolbar";
+export type { ContextMenuToolbarOptions } from "./ContextMenuToolbar";
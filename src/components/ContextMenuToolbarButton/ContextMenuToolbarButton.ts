@@ -0,0 +1,317 @@
+import type {
+  Content,
+  ContextMenuContext,
+  ContextMenuToolbarButtonEvent,
+  ContextValue
+} from "../../types";
+import { contextFeature, resolveContextValue } from "../../util/context";
+import { createElement, createSlotElement } from "../../util/dom";
+import { Evented } from "../../util/evented";
+import Tooltip from "../Tooltip";
+import styles from "./ContextMenuToolbarButton.module.scss";
+
+type ContextMenuToolbarButtonEvents = {
+  click: ContextMenuToolbarButtonEvent;
+};
+
+/**
+ * Configuration options for creating a toolbar button.
+ */
+export interface ContextMenuToolbarButtonOptions {
+  /** The button's name, shown in a tooltip and announced by screen readers. */
+  label: string;
+  /** The icon to display. */
+  icon: Content;
+  /** Whether the button is disabled. Defaults to `false`. */
+  disabled?: ContextValue<boolean>;
+  /** Whether the button is hidden. Defaults to `false`. */
+  hidden?: ContextValue<boolean>;
+  /** Custom CSS class name for the `<button>` element. */
+  className?: string;
+}
+
+/**
+ * An icon-only button in a {@link ContextMenuToolbar}. Its label is shown in a
+ * tooltip while the button is hovered or has keyboard focus.
+ *
+ * Toolbar buttons fire a "click" event with the same context data as menu items.
+ *
+ * @example
+ * ```ts
+ * const share = new ContextMenuToolbarButton({
+ *   label: "Share",
+ *   icon: { className: "fa-solid fa-share" }
+ * });
+ *
+ * share.on("click", ({ lngLat }) => {
+ *   navigator.share({ url: `https://example.com/#${lngLat.lat},${lngLat.lng}` });
+ * });
+ * ```
+ */
+export default class ContextMenuToolbarButton extends Evented<ContextMenuToolbarButtonEvents> {
+  private _className: string;
+  private _label: string;
+  private _icon: Content;
+  private _disabledOption: ContextValue<boolean>;
+  private _hiddenOption: ContextValue<boolean>;
+
+  private _disabled: boolean = false;
+  private _hidden: boolean = false;
+  private _tooltip: Tooltip = new Tooltip();
+  private _currentCtx: ContextMenuContext | null = null;
+
+  private _buttonEl: HTMLButtonElement | null = null;
+  private _iconEl: HTMLElement | null = null;
+
+  private _handlers: Record<string, EventListener | null> = {};
+
+  /**
+   * Creates a new toolbar button.
+   * @param options - Configuration options for the button.
+   * @param options.label - The button's name, shown in a tooltip and announced by screen readers.
+   * @param options.icon - The icon to display.
+   * @param options.disabled - Whether the button is disabled. Defaults to `false`.
+   * @param options.hidden - Whether the button is hidden. Defaults to `false`.
+   * @param options.className - Custom CSS class name for the `<button>` element.
+   */
+  constructor(options: ContextMenuToolbarButtonOptions) {
+    super();
+    this._className = options.className
+      ? `${styles.button} ${options.className}`
+      : styles.button;
+    this._label = options.label;
+    this._icon = options.icon;
+    this._disabledOption = options.disabled ?? false;
+    this._hiddenOption = options.hidden ?? false;
+    this._tooltip.text = this._label;
+
+    this._updateDisabled();
+    this._updateHidden();
+  }
+
+  /**
+   * Gets the button's label.
+   */
+  get label(): string {
+    return this._label;
+  }
+
+  /**
+   * Sets the button's label, shown in its tooltip.
+   */
+  set label(value: string) {
+    this._label = value;
+    this._tooltip.text = value;
+    this._buttonEl?.setAttribute("aria-label", value);
+  }
+
+  /**
+   * Gets the button's icon.
+   */
+  get icon(): Content {
+    return this._icon;
+  }
+
+  /**
+   * Sets the button's icon.
+   * @param value - A string (rendered as text), HTMLElement or slot options.
+   */
+  set icon(value: Content) {
+    this._icon = value;
+    this._updateIcon();
+  }
+
+  /**
+   * Gets whether the button is disabled.
+   * @returns `true` if the button is disabled, `false` otherwise.
+   */
+  get disabled(): boolean {
+    return this._disabled;
+  }
+
+  /**
+   * Sets whether the button is disabled.
+   * @param value - `true` to disable the button, `false` to enable it, or a function returning either for the current context.
+   */
+  set disabled(value: ContextValue<boolean>) {
+    this._disabledOption = value;
+    this._updateDisabled();
+  }
+
+  /**
+   * Gets whether the button is hidden.
+   * @returns `true` if the button is hidden, `false` otherwise.
+   */
+  get hidden(): boolean {
+    return this._hidden;
+  }
+
+  /**
+   * Sets whether the button is hidden.
+   * @param value - `true` to hide the button, `false` to show it, or a function returning either for the current context.
+   */
+  set hidden(value: ContextValue<boolean>) {
+    this._hiddenOption = value;
+    this._updateHidden();
+  }
+
+  /**
+   * Whether arrow key navigation in the toolbar stops at the button.
+   * @internal
+   */
+  get isFocusable(): boolean {
+    return !this._disabled && !this._hidden;
+  }
+
+  /**
+   * The button's element, once it has been rendered.
+   * @internal
+   */
+  get element(): HTMLButtonElement | null {
+    return this._buttonEl;
+  }
+
+  /**
+   * @internal
+   */
+  render(parent: HTMLElement, ctx: ContextMenuContext): HTMLElement {
+    this._currentCtx = ctx;
+
+    if (!this._buttonEl) {
+      this._setupUI();
+    }
+
+    this._updateDisabled();
+    this._updateHidden();
+
+    const buttonEl = this._buttonEl!;
+    if (buttonEl.parentElement !== parent) {
+      parent.appendChild(buttonEl);
+    }
+
+    return buttonEl;
+  }
+
+  /**
+   * Focuses the button and shows its tooltip. Only works if the button is not `disabled`.
+   */
+  focus(): void {
+    if (!this._buttonEl || !this.isFocusable) return;
+
+    this._buttonEl.focus({ preventScroll: true });
+    if (this._currentCtx) {
+      this._tooltip.show(
+        this._buttonEl,
+        this._currentCtx.map.getContainer(),
+        this._currentCtx.menuTheme,
+        "bottom"
+      );
+    }
+  }
+
+  /**
+   * Hides the button's tooltip.
+   */
+  blur(): void {
+    this._tooltip.hide();
+  }
+
+  /**
+   * Programmatically clicks the button. Only works if the button is not `disabled`.
+   */
+  click(): void {
+    if (this._buttonEl && !this._disabled) {
+      this._buttonEl.click();
+    }
+  }
+
+  /**
+   * Removes the button from the DOM and cleans up all event listeners and references.
+   * @returns The button instance for method chaining.
+   */
+  remove(): this {
+    if (this._buttonEl) {
+      for (const [event, handler] of Object.entries(this._handlers)) {
+        if (!handler) continue;
+
+        this._buttonEl.removeEventListener(event, handler);
+        this._handlers[event] = null;
+      }
+    }
+
+    this._tooltip.remove();
+    this._buttonEl?.remove();
+
+    this._buttonEl = null;
+    this._iconEl = null;
+    this._currentCtx = null;
+    return this;
+  }
+
+  private _setupUI(): void {
+    const button = createElement("button", {
+      role: "menuitem",
+      class: this._className,
+      "aria-label": this._label
+    }) as HTMLButtonElement;
+
+    this._buttonEl = button;
+    this._updateIcon();
+
+    this._handlers.click = this._handleClick.bind(this) as EventListener;
+    button.addEventListener("click", this._handlers.click);
+  }
+
+  private _updateIcon(): void {
+    if (!this._buttonEl) return;
+
+    const iconEl = createSlotElement(this._icon, { className: styles.icon });
+    if (iconEl) {
+      iconEl.setAttribute("aria-hidden", "true");
+    }
+
+    if (this._iconEl && iconEl) {
+      this._iconEl.replaceWith(iconEl);
+    } else if (iconEl) {
+      this._buttonEl.appendChild(iconEl);
+    } else {
+      this._iconEl?.remove();
+    }
+    this._iconEl = iconEl;
+  }
+
+  private _updateDisabled(): void {
+    this._disabled =
+      resolveContextValue(this._disabledOption, this._currentCtx) ?? false;
+
+    if (this._buttonEl) {
+      this._buttonEl.disabled = this._disabled;
+    }
+  }
+
+  private _updateHidden(): void {
+    this._hidden =
+      resolveContextValue(this._hiddenOption, this._currentCtx) ?? false;
+
+    if (this._buttonEl) {
+      this._buttonEl.hidden = this._hidden;
+    }
+  }
+
+  private _handleClick(ev: MouseEvent): void {
+    ev.preventDefault();
+    if (this._disabled || !this._currentCtx) return;
+
+    const { event, map } = this._currentCtx;
+    this.fire("click", {
+      type: "click",
+      target: this,
+      originalEvent: ev,
+      point: event.point,
+      lngLat: event.lngLat,
+      features: event.features,
+      feature: contextFeature(this._currentCtx),
+      map
+    });
+  }
+}
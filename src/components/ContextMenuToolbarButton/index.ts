@@ -0,0 +1,2 @@
+export { default } from "./ContextMenuToolbarButton";
+export type { ContextMenuToolbarButtonOptions } from "./ContextMenuToolbarButton";
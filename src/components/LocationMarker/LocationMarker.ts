@@ -0,0 +1,82 @@
+import type { Map as MapboxMap } from "mapbox-gl";
+import type { ContextMenuContext } from "../../types";
+import type { ContextMenuTheme } from "../ContextMenu/ContextMenu";
+import { createElement } from "../../util/dom";
+import styles from "./LocationMarker.module.scss";
+
+/**
+ * Marks the location a menu was opened at, such as with a pulsing dot, while the
+ * menu is open. The marker is centered on the location and ignores the pointer.
+ * @internal
+ */
+export default class LocationMarker {
+  private _createElement: ((ctx: ContextMenuContext) => HTMLElement) | null;
+  private _el: HTMLElement | null = null;
+  private _map: MapboxMap | null = null;
+  private _lngLat: { lng: number; lat: number } | null = null;
+  private _resizeHandler: (() => void) | null = null;
+
+  /**
+   * @param createElement - Creates the element to show, in place of the pulsing dot.
+   */
+  constructor(createElement?: (ctx: ContextMenuContext) => HTMLElement) {
+    this._createElement = createElement ?? null;
+  }
+
+  /**
+   * Shows the marker at the location of a context, replacing any marker already shown.
+   * @param ctx - The context the menu was opened with.
+   * @param theme - The menu theme, which the pulsing dot follows.
+   */
+  show(ctx: ContextMenuContext, theme: ContextMenuTheme): void {
+    this.hide();
+
+    const el = createElement("div", {
+      class: styles.marker,
+      "aria-hidden": "true"
+    });
+    if (theme === "light") {
+      el.classList.add("themeLight");
+    } else if (theme === "dark") {
+      el.classList.add("themeDark");
+    }
+    el.appendChild(
+      this._createElement
+        ? this._createElement(ctx)
+        : createElement("div", { class: styles.dot })
+    );
+
+    this._el = el;
+    this._map = ctx.map;
+    this._lngLat = ctx.event.lngLat;
+    ctx.map.getContainer().appendChild(el);
+    this._updatePosition();
+
+    // The menu closes when the map moves, but not when its container is resized
+    this._resizeHandler = this._updatePosition.bind(this);
+    ctx.map.on("resize", this._resizeHandler);
+  }
+
+  /**
+   * Removes the marker from the map.
+   */
+  hide(): void {
+    if (this._map && this._resizeHandler) {
+      this._map.off("resize", this._resizeHandler);
+    }
+
+    this._el?.remove();
+    this._el = null;
+    this._map = null;
+    this._lngLat = null;
+    this._resizeHandler = null;
+  }
+
+  private _updatePosition(): void {
+    if (!this._el || !this._map || !this._lngLat) return;
+
+    const { x, y } = this._map.project(this._lngLat);
+    this._el.style.left = `${x}px`;
+    this._el.style.top = `${y}px`;
+  }
+}
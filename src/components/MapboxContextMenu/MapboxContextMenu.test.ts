@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Map } from "mapbox-gl";
+import ContextMenuItem from "../ContextMenuItem";
+import MapboxContextMenu from "./MapboxContextMenu";
+
+function createMap(): Map {
+  const container = document.createElement("div");
+  const canvas = document.createElement("canvas");
+  canvas.tabIndex = 0;
+  container.appendChild(canvas);
+  document.body.appendChild(container);
+
+  return {
+    getContainer: () => container,
+    getCanvas: () => canvas,
+    on: vi.fn(),
+    off: vi.fn(),
+    project: ({ lng, lat }: { lng: number; lat: number }) => ({
+      x: lng,
+      y: lat
+    }),
+    unproject: ([x, y]: [number, number]) => ({ lng: x, lat: y }),
+    getCenter: () => ({ lng: 0, lat: 0 }),
+    getZoom: () => 10
+  } as unknown as Map;
+}
+
+function press(key: string): void {
+  (document.activeElement ?? document.body).dispatchEvent(
+    new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true })
+  );
+}
+
+function focusedLabel(): string | undefined {
+  return document.activeElement?.closest("li")?.textContent?.trim();
+}
+
+describe("MapboxContextMenu accelerators", () => {
+  let map: Map;
+  let menu: MapboxContextMenu;
+  let deleteItem: ContextMenuItem;
+  let onDelete: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    map = createMap();
+    menu = new MapboxContextMenu();
+    onDelete = vi.fn();
+    deleteItem = new ContextMenuItem({
+      label: "Delete",
+      shortcut: "C",
+      accelerator: true
+    }).on("click", onDelete);
+
+    menu.addItem(new ContextMenuItem({ label: "Center map here" }));
+    menu.addItem(deleteItem);
+    menu.addTo(map);
+  });
+
+  afterEach(() => {
+    menu.remove();
+    map.getContainer().remove();
+  });
+
+  it("leaves plain shortcuts to the open menu's typeahead", () => {
+    menu.openAt({ x: 10, y: 10 });
+    expect(menu.isOpen).toBe(true);
+
+    press("c");
+
+    expect(onDelete).not.toHaveBeenCalled();
+    expect(menu.isOpen).toBe(true);
+    expect(focusedLabel()).toBe("Center map here");
+  });
+
+  it("triggers plain shortcuts while the map has focus", () => {
+    map.getCanvas().focus();
+
+    press("c");
+
+    expect(onDelete).toHaveBeenCalledTimes(1);
+    expect(onDelete.mock.calls[0][0]).toMatchObject({
+      type: "click",
+      target: deleteItem,
+      lngLat: { lng: 0, lat: 0 }
+    });
+  });
+});
@@ -1,12 +1,168 @@
-import type { Map as MapboxMap, MapMouseEvent } from "mapbox-gl";
-import { ContextMenuContext, LayerTarget, TargetDescriptor } from "../../types";
+import type {
+  FeatureSelector,
+  LngLatLike,
+  Map as MapboxMap,
+  MapMouseEvent,
+  MapTouchEvent,
+  TargetFeature
+} from "mapbox-gl";
+import {
+  ContextMenuActions,
+  ContextMenuContext,
+  ContextMenuSpec,
+  LayerTarget,
+  MenuItem,
+  TargetDescriptor
+} from "../../types";
 import { ContextMenu, ContextMenuOptions } from "../ContextMenu";
+import ContextMenuGroup from "../ContextMenuGroup";
+import ContextMenuItem from "../ContextMenuItem";
+import ContextMenuSubmenu from "../ContextMenuSubmenu";
+import LocationMarker from "../LocationMarker";
+import { isEditableElement } from "../../util/dom";
+import { isPlainShortcut, matchesShortcut } from "../../util/shortcut";
+import { LongPressHandler, type LongPressOptions } from "../../util/longpress";
+import {
+  ContextMenuSpecError,
+  createItemsFromSpec,
+  itemsToSpec
+} from "../../util/spec";
+import { evaluateExpression, validateExpression } from "../../util/expression";
+
+/**
+ * Options for opening the menu from the keyboard.
+ */
+export interface KeyboardOptions {
+  /**
+   * Returns the location at which to open the menu, e.g. the position of an
+   * app-provided keyboard cursor. Defaults to the map center.
+   */
+  position?: (map: MapboxMap) => LngLatLike;
+}
+
+/** Feature state set on the features the menu applies to while it is open */
+const DEFAULT_HIGHLIGHT_STATE = { contextmenu: true };
+
+/**
+ * Options for highlighting the features the menu applies to while it is open.
+ */
+export interface HighlightOptions {
+  /** The feature state set on each feature. Defaults to `{ contextmenu: true }`. */
+  state?: Record<string, unknown>;
+}
+
+/**
+ * Options for the marker shown at the location the menu was opened at.
+ */
+export interface LocationMarkerOptions {
+  /**
+   * Creates the marker element for a context, in place of the pulsing dot. The
+   * element is centered on the location.
+   */
+  element?: (ctx: ContextMenuContext) => HTMLElement;
+}
+
+/** A feature from `queryRenderedFeatures`, which knows the source it was rendered from */
+type RenderedFeature = GeoJSON.Feature & {
+  source?: string;
+  sourceLayer?: string;
+};
+
+/** Whether a feature is from the Interaction API, which knows the featureset it was rendered from */
+function isTargetFeature(feature: object): feature is TargetFeature {
+  return !!(feature as TargetFeature).target;
+}
+
+/**
+ * Options for the feature chooser, which asks which feature is meant when several
+ * features are at the click location.
+ */
+export interface FeatureChooserOptions {
+  /**
+   * The label of each feature's submenu: the name of a feature property, or a
+   * Mapbox-style expression evaluated against the feature, e.g.
+   * `["coalesce", ["get", "name"], ["get", "class"]]`. Features without a label are
+   * numbered, e.g. "Feature 2". Defaults to `"name"`.
+   */
+  label?: string | unknown[];
+}
+
+/**
+ * A submenu for one of several features at the click location. It shows the menu's
+ * own items, with a context that applies to its feature alone.
+ */
+class FeatureSubmenu extends ContextMenuSubmenu {
+  private _feature: GeoJSON.Feature;
+
+  constructor(label: string, feature: GeoJSON.Feature, items: MenuItem[]) {
+    super({ label });
+    this._feature = feature;
+    items.forEach((item) => this.addItem(item));
+  }
+
+  get feature(): GeoJSON.Feature {
+    return this._feature;
+  }
+
+  render(parent: HTMLElement, ctx: ContextMenuContext): HTMLElement {
+    return super.render(parent, featureContext(ctx, this._feature));
+  }
+
+  remove(): this {
+    // The items belong to the menu, which shows them again once the chooser closes
+    this.releaseItems();
+    return super.remove();
+  }
+}
+
+/**
+ * Narrows a context to one of its features, as if it were the only one hit.
+ */
+function featureContext(
+  ctx: ContextMenuContext,
+  feature: GeoJSON.Feature
+): ContextMenuContext {
+  // Inherit from the original event to keep its other properties and methods
+  const event = Object.create(ctx.event, {
+    features: { value: [feature], enumerable: true }
+  });
+  return { ...ctx, event, feature };
+}
 
 /**
  * Configuration options for creating a Mapbox context menu.
  * Extends {@link ContextMenuOptions}.
  */
-export interface MapboxContextMenuOptions extends ContextMenuOptions {}
+export interface MapboxContextMenuOptions extends ContextMenuOptions {
+  /**
+   * Whether a long press on touch devices opens the menu. Pass an object to
+   * configure the hold duration and movement tolerance. Defaults to `false`.
+   */
+  longPress?: boolean | LongPressOptions;
+  /**
+   * Whether Shift+F10 or the ContextMenu key opens the menu while the map canvas
+   * has focus. Pass an object to configure where the menu opens. Defaults to `false`.
+   */
+  keyboard?: boolean | KeyboardOptions;
+  /**
+   * Whether the menu asks which feature is meant when several features are at the
+   * click location. The first level then lists one submenu per feature, each holding
+   * the menu's items, and item events carry the picked `feature`. Pass an object to
+   * configure the feature labels. Defaults to `false`.
+   */
+  featureChooser?: boolean | FeatureChooserOptions;
+  /**
+   * Whether the features the menu opens on get a feature state while it is open, so
+   * style layers can paint them, e.g. with an outline. Features without an `id` are
+   * skipped. Pass an object to set a different state. Defaults to `false`.
+   */
+  highlight?: boolean | HighlightOptions;
+  /**
+   * Whether a marker shows the location the menu was opened at while it is open.
+   * Pass an object to replace the pulsing dot with your own element. Defaults to `false`.
+   */
+  marker?: boolean | LocationMarkerOptions;
+}
 
 /**
  * A context menu for Mapbox GL JS and Maplibre GL JS.
@@ -27,9 +183,23 @@ export default class MapboxContextMenu extends ContextMenu {
   private _map: MapboxMap | null = null;
   private _target: LayerTarget | undefined = undefined;
   private _interactionId: string | null = null;
+  private _longPressOptions: LongPressOptions | null;
+  private _longPress: LongPressHandler | null = null;
+  private _keyboardOptions: KeyboardOptions | null;
+  private _canvasKeydownHandler: ((ev: KeyboardEvent) => void) | null = null;
+  private _openedByKeyboard: boolean = false;
+  private _acceleratorHandler: ((ev: KeyboardEvent) => void) | null = null;
+  private _pointerPoint: { x: number; y: number } | null = null;
+  private _featureChooser: FeatureChooserOptions | null;
+  private _ownItems: MenuItem[] | null = null;
+  private _highlightState: Record<string, unknown> | null;
+  private _highlighted: Array<FeatureSelector | TargetFeature> = [];
+  private _marker: LocationMarker | null;
   private _mapHandlers = {
     contextmenu: null as ((e: MapMouseEvent) => void) | null,
     mousedown: null as ((e: MapMouseEvent) => void) | null,
+    mousemove: null as ((e: MapMouseEvent) => void) | null,
+    mouseout: null as (() => void) | null,
     move: null as (() => void) | null
   };
 
@@ -39,9 +209,151 @@ export default class MapboxContextMenu extends ContextMenu {
    * @param options.theme - The color theme: "light", "dark", or "auto" (follows system preference). Defaults to "auto".
    * @param options.width - The menu width as a CSS value (e.g., "200px") or number in pixels.
    * @param options.className - Custom CSS class name for the menu element.
+   * @param options.longPress - Whether a long press on touch devices opens the menu. Defaults to `false`.
+   * @param options.keyboard - Whether Shift+F10 or the ContextMenu key opens the menu. Defaults to `false`.
+   * @param options.featureChooser - Whether the menu asks which feature is meant when several are hit. Defaults to `false`.
+   * @param options.highlight - Whether the features the menu opens on get a feature state while it is open. Defaults to `false`.
+   * @param options.marker - Whether a marker shows the location the menu was opened at. Defaults to `false`.
+   * @throws {ContextMenuSpecError} If the feature chooser label is an invalid expression.
    */
   constructor(options?: MapboxContextMenuOptions) {
     super(options);
+
+    const longPress = options?.longPress ?? false;
+    this._longPressOptions =
+      longPress === true ? {} : longPress === false ? null : longPress;
+
+    const keyboard = options?.keyboard ?? false;
+    this._keyboardOptions =
+      keyboard === true ? {} : keyboard === false ? null : keyboard;
+
+    const featureChooser = options?.featureChooser ?? false;
+    this._featureChooser =
+      featureChooser === true
+        ? {}
+        : featureChooser === false
+          ? null
+          : featureChooser;
+
+    const highlight = options?.highlight ?? false;
+    this._highlightState =
+      highlight === true
+        ? DEFAULT_HIGHLIGHT_STATE
+        : highlight === false
+          ? null
+          : (highlight.state ?? DEFAULT_HIGHLIGHT_STATE);
+
+    const marker = options?.marker ?? false;
+    this._marker =
+      marker === true
+        ? new LocationMarker()
+        : marker === false
+          ? null
+          : new LocationMarker(marker.element);
+
+    const label = this._featureChooser?.label;
+    if (Array.isArray(label)) {
+      const errors = validateExpression(label, "featureChooser.label");
+      if (errors.length > 0) {
+        throw new ContextMenuSpecError("Invalid feature chooser label", errors);
+      }
+    }
+  }
+
+  /**
+   * Creates a menu from a JSON spec, such as one loaded from a server.
+   *
+   * @example
+   * ```ts
+   * const menu = MapboxContextMenu.fromSpec(
+   *   {
+   *     items: [
+   *       { label: "Copy coordinates", icon: "fa-solid fa-copy", action: "copy" },
+   *       { type: "separator" },
+   *       {
+   *         label: "Delete",
+   *         action: "delete",
+   *         variant: "danger",
+   *         visible: ["==", ["get", "editable"], true]
+   *       }
+   *     ]
+   *   },
+   *   {
+   *     copy: ({ lngLat }) => navigator.clipboard.writeText(`${lngLat.lat}, ${lngLat.lng}`),
+   *     delete: ({ features }) => deleteFeature(features?.[0])
+   *   }
+   * );
+   * ```
+   *
+   * @param spec - The menu's items. Conditions are Mapbox-style expressions over the clicked feature.
+   * @param actions - Handlers for the item `action` names in the spec.
+   * @param options - Configuration options for the context menu.
+   * @returns The new context menu.
+   * @throws {ContextMenuSpecError} If the spec is invalid or refers to an action that isn't in the registry.
+   */
+  static fromSpec(
+    spec: ContextMenuSpec,
+    actions: ContextMenuActions = {},
+    options?: MapboxContextMenuOptions
+  ): MapboxContextMenu {
+    const items = createItemsFromSpec(spec, actions);
+    const menu = new MapboxContextMenu(options);
+    items.forEach((item) => menu.addItem(item));
+    return menu;
+  }
+
+  /**
+   * Describes the menu's items as a JSON spec that `fromSpec` accepts. Items created
+   * from a spec keep their actions and conditions. Items built in code are described
+   * by their label, icon, shortcut and variant; their click handlers aren't included.
+   * @returns The spec.
+   * @throws {ContextMenuSpecError} If the menu has items a spec can't describe, such as checkbox or custom items.
+   */
+  toSpec(): ContextMenuSpec {
+    return itemsToSpec(this.items);
+  }
+
+  /**
+   * Gets the context menu items. While the feature chooser is open, these are still
+   * the menu's own items rather than the feature submenus.
+   * @returns The context menu items.
+   */
+  get items(): readonly MenuItem[] {
+    return this._ownItems ?? super.items;
+  }
+
+  /**
+   * Adds a menu item to the end of the context menu.
+   * @param item - The menu item to add.
+   * @returns The context menu instance for method chaining.
+   */
+  addItem(item: MenuItem): this {
+    super.addItem(item);
+    this._updateAcceleratorListener();
+    return this;
+  }
+
+  /**
+   * Inserts a menu item at the specified index.
+   * @param index - The index at which to insert the item. If the index is out of bounds, the item will be added at the end.
+   * @param item - The menu item to insert.
+   * @returns The context menu instance for method chaining.
+   */
+  insertItem(index: number, item: MenuItem): this {
+    super.insertItem(index, item);
+    this._updateAcceleratorListener();
+    return this;
+  }
+
+  /**
+   * Removes a menu item from the context menu, doing any clean up necessary.
+   * @param item - The menu item to remove.
+   * @returns The context menu instance for method chaining.
+   */
+  removeItem(item: MenuItem): this {
+    super.removeItem(item);
+    this._updateAcceleratorListener();
+    return this;
   }
 
   /**
@@ -71,7 +383,10 @@ export default class MapboxContextMenu extends ContextMenu {
   remove(): this {
     if (!this._map) return this;
 
+    this._clearHighlight();
     this._removeMapEventListeners();
+    this._closeFeatureChooser();
+    this._marker?.hide();
     super.remove();
 
     if (MapboxContextMenu._openMenu === this) {
@@ -84,13 +399,75 @@ export default class MapboxContextMenu extends ContextMenu {
     return this;
   }
 
+  /**
+   * Opens the context menu at a location on the map, firing the "show" event.
+   *
+   * The menu receives a synthesized `contextmenu` event, so items see the same
+   * `point`, `lngLat` and `features` they would for a right-click at that location.
+   *
+   * @param location - Where to open the menu. Either a `LngLatLike` (including
+   *   `[lng, lat]` arrays) or a pixel point `{ x, y }` relative to the map container.
+   * @param options - Optional settings for opening the menu.
+   * @param options.features - The features the menu applies to. For layer-scoped
+   *   menus, defaults to the features of the target rendered at the location.
+   * @returns The context menu instance for method chaining.
+   */
+  openAt(
+    location: LngLatLike | { x: number; y: number },
+    options?: { features?: Array<GeoJSON.Feature> }
+  ): this {
+    if (!this._map) return this;
+
+    const point = this._isPoint(location)
+      ? { x: location.x, y: location.y }
+      : this._map.project(location);
+
+    this._openAtPoint(point, options?.features ?? this._queryFeatures(point));
+    return this;
+  }
+
+  /**
+   * Closes the context menu, firing the "hide" event if it was open.
+   * @returns The context menu instance for method chaining.
+   */
+  close(): this {
+    this.hide();
+    return this;
+  }
+
+  /**
+   * Closes the context menu if it is open, otherwise opens it.
+   * @param location - Where to open the menu. See {@link openAt}. Defaults to the map center.
+   * @param options - Optional settings for opening the menu. See {@link openAt}.
+   * @returns The context menu instance for method chaining.
+   */
+  toggle(
+    location?: LngLatLike | { x: number; y: number },
+    options?: { features?: Array<GeoJSON.Feature> }
+  ): this {
+    if (this.isOpen) {
+      return this.close();
+    }
+    if (!this._map) return this;
+
+    return this.openAt(location ?? this._map.getCenter(), options);
+  }
+
   protected show(x: number, y: number, context: ContextMenuContext): void {
     if (MapboxContextMenu._openMenu && MapboxContextMenu._openMenu !== this) {
       MapboxContextMenu._openMenu.hide();
     }
 
+    this._closeFeatureChooser();
+    this._openFeatureChooser(context);
+    this._clearHighlight();
+    this._highlightFeatures(context.event.features);
+
     super.show(x, y, context);
     MapboxContextMenu._openMenu = this;
+    // Pick up accelerators added to submenus and groups since the menu was added
+    this._updateAcceleratorListener();
+    this._marker?.show(context, this._theme);
 
     // Add document-level Escape handler to close entire menu hierarchy
     if (!this._handlers.escape) {
@@ -106,10 +483,26 @@ export default class MapboxContextMenu extends ContextMenu {
 
   protected hide(): void {
     super.hide();
+    this._closeFeatureChooser();
+    this._clearHighlight();
+    this._marker?.hide();
     if (MapboxContextMenu._openMenu === this) {
       MapboxContextMenu._openMenu = null;
     }
 
+    // Return focus to the map so keyboard users can carry on navigating it
+    if (this._openedByKeyboard) {
+      this._openedByKeyboard = false;
+
+      const active = document.activeElement;
+      if (
+        this._map &&
+        (active === document.body || this._map.getContainer().contains(active))
+      ) {
+        this._map.getCanvas().focus();
+      }
+    }
+
     // Remove Escape handler
     if (this._handlers.escape) {
       document.removeEventListener("keydown", this._handlers.escape);
@@ -117,6 +510,150 @@ export default class MapboxContextMenu extends ContextMenu {
     }
   }
 
+  /**
+   * Replaces the menu's items with one submenu per feature when several features
+   * were hit, so the user picks the feature before the action.
+   */
+  private _openFeatureChooser(context: ContextMenuContext): void {
+    const features = context.event.features;
+    if (!this._featureChooser || !features || features.length < 2) return;
+
+    const items = this._items;
+    this._ownItems = items;
+    this._items = features.map(
+      (feature, i) =>
+        new FeatureSubmenu(
+          this._featureLabel(featureContext(context, feature), i),
+          feature,
+          items
+        )
+    );
+  }
+
+  /**
+   * Puts the menu's own items back in place of the feature submenus.
+   */
+  private _closeFeatureChooser(): void {
+    if (!this._ownItems) return;
+
+    // Keep items added while the chooser was open
+    const added = this._items.filter((item) => {
+      if (!(item instanceof FeatureSubmenu)) return true;
+      item.remove();
+      return false;
+    });
+
+    this._items = [...this._ownItems, ...added];
+    this._ownItems = null;
+  }
+
+  /**
+   * @internal
+   */
+  protected _insertProvidedItems(items: MenuItem[]): void {
+    if (!this._ownItems) {
+      super._insertProvidedItems(items);
+      return;
+    }
+
+    // Nest provided items under each feature too, after the menu's own items
+    this._ownItems.push(...items);
+    this._items.forEach((item) => {
+      if (item instanceof FeatureSubmenu) {
+        items.forEach((provided) => item.addItem(provided));
+      }
+    });
+  }
+
+  /**
+   * @internal
+   */
+  protected _withdrawProvidedItems(items: MenuItem[]): void {
+    if (!this._ownItems) {
+      super._withdrawProvidedItems(items);
+      return;
+    }
+
+    this._ownItems = this._ownItems.filter((item) => !items.includes(item));
+    this._items.forEach((item) => {
+      if (item instanceof FeatureSubmenu) {
+        items.forEach((provided) => item.removeItem(provided));
+      }
+    });
+  }
+
+  /**
+   * Sets the highlight state on the features the menu opened on. Feature state
+   * needs a feature `id`, so features without one are skipped.
+   */
+  private _highlightFeatures(
+    features: Array<GeoJSON.Feature> | undefined
+  ): void {
+    if (!this._highlightState || !features || !this._map) return;
+
+    for (const feature of features) {
+      if (feature.id === undefined || feature.id === null) continue;
+
+      const target = this._featureStateTarget(feature);
+      if (!target) continue;
+
+      this._map.setFeatureState(target, this._highlightState);
+      this._highlighted.push(target);
+    }
+  }
+
+  /**
+   * Finds what to set a feature's state on: the feature itself for Interaction API
+   * features, which know their featureset, or else its source and source layer.
+   */
+  private _featureStateTarget(
+    feature: GeoJSON.Feature
+  ): FeatureSelector | TargetFeature | null {
+    if (isTargetFeature(feature)) return feature;
+
+    // Features passed to openAt may not have been rendered from a source
+    const { source, sourceLayer } = feature as RenderedFeature;
+    if (!source || !this._map!.getSource(source)) return null;
+
+    return { id: feature.id!, source, sourceLayer };
+  }
+
+  private _clearHighlight(): void {
+    if (!this._map || !this._highlightState) return;
+
+    const map = this._map;
+    const keys = Object.keys(this._highlightState);
+    for (const target of this._highlighted) {
+      // The style may have changed while the menu was open
+      if (!isTargetFeature(target) && !map.getSource(target.source)) continue;
+
+      keys.forEach((key) => map.removeFeatureState(target, key));
+    }
+    this._highlighted = [];
+  }
+
+  private _featureLabel(ctx: ContextMenuContext, index: number): string {
+    const label = this._featureChooser?.label ?? "name";
+    const value = Array.isArray(label)
+      ? evaluateExpression(label, ctx)
+      : ctx.feature?.properties?.[label];
+
+    return value === null || value === undefined || value === ""
+      ? `Feature ${index + 1}`
+      : String(value);
+  }
+
+  private _isPoint(
+    location: LngLatLike | { x: number; y: number }
+  ): location is { x: number; y: number } {
+    return (
+      typeof location === "object" &&
+      !Array.isArray(location) &&
+      "x" in location &&
+      "y" in location
+    );
+  }
+
   private _isTargetDescriptor(
     target: LayerTarget | undefined
   ): target is TargetDescriptor {
@@ -127,17 +664,274 @@ export default class MapboxContextMenu extends ContextMenu {
     );
   }
 
+  private _open(e: MapMouseEvent): void {
+    this.show(e.point.x, e.point.y, this._createContext(e));
+  }
+
+  private _createContext(e: MapMouseEvent): ContextMenuContext {
+    return {
+      map: this._map!,
+      event: e,
+      menuWidth: this.width,
+      menuTheme: this._theme,
+      menuClassName: this._className,
+      menuWrapFocus: this.wrapFocus,
+      menuMaxHeight: this.maxHeight
+    };
+  }
+
+  /**
+   * Creates a `contextmenu` event for a point relative to the map container.
+   */
+  private _createMapEvent(
+    point: { x: number; y: number },
+    features: Array<GeoJSON.Feature> | undefined
+  ): MapMouseEvent {
+    const map = this._map!;
+    const rect = map.getContainer().getBoundingClientRect();
+    const originalEvent = new MouseEvent("contextmenu", {
+      bubbles: true,
+      cancelable: true,
+      clientX: rect.left + point.x,
+      clientY: rect.top + point.y
+    });
+
+    // Only the properties read by the menu and its items are provided, with
+    // preventDefault and defaultPrevented behaving as they do on map events
+    let defaultPrevented = false;
+    return {
+      type: "contextmenu",
+      target: map,
+      originalEvent,
+      point,
+      lngLat: map.unproject([point.x, point.y]),
+      features,
+      preventDefault() {
+        defaultPrevented = true;
+      },
+      get defaultPrevented() {
+        return defaultPrevented;
+      }
+    } as unknown as MapMouseEvent;
+  }
+
+  /**
+   * Queries the features under a point the same way a right-click on the target would.
+   * Returns `undefined` when the menu is not scoped to a target.
+   */
+  private _queryFeatures(point: {
+    x: number;
+    y: number;
+  }): Array<GeoJSON.Feature> | undefined {
+    const map = this._map!;
+
+    if (!this._target) return undefined;
+
+    if (this._isTargetDescriptor(this._target)) {
+      // TargetDescriptors are only supported through the Interaction API
+      if (!this._interactionId) return [];
+
+      return map.queryRenderedFeatures([point.x, point.y], {
+        target: this._target
+      });
+    }
+
+    const layers = (
+      Array.isArray(this._target) ? this._target : [this._target]
+    ).filter((id) => map.getLayer(id));
+
+    return layers.length > 0
+      ? map.queryRenderedFeatures([point.x, point.y], { layers })
+      : [];
+  }
+
+  /**
+   * Opens the menu at a point if it hits the menu's target, as a right-click there would.
+   * @returns Whether the menu was opened.
+   */
+  private _openAtTarget(point: { x: number; y: number }): boolean {
+    const features = this._queryFeatures(point);
+    if (features && features.length === 0) return false;
+
+    this._openAtPoint(point, features);
+    return true;
+  }
+
+  /**
+   * Opens the menu at a point relative to the map container with a synthesized `contextmenu` event.
+   */
+  private _openAtPoint(
+    point: { x: number; y: number },
+    features: Array<GeoJSON.Feature> | undefined
+  ): void {
+    this._open(this._createMapEvent(point, features));
+  }
+
+  private _handleLongPress(e: MapTouchEvent): void {
+    this._openAtTarget(e.point);
+  }
+
+  private _handleCanvasKeydown(ev: KeyboardEvent): void {
+    const isMenuKey =
+      ev.key === "ContextMenu" || (ev.key === "F10" && ev.shiftKey);
+    // Another menu on the map already opened for this key press
+    if (!isMenuKey || ev.defaultPrevented) return;
+
+    const map = this._map!;
+    const lngLat = this._keyboardOptions?.position?.(map) ?? map.getCenter();
+
+    // Leave the key to the browser's own menu if this menu's target isn't there
+    if (this._openAtTarget(map.project(lngLat))) {
+      ev.preventDefault();
+      this._openedByKeyboard = true;
+      this.focusFirstItem();
+    }
+  }
+
+  /**
+   * Triggers the item whose accelerator matches a keydown anywhere in the document.
+   * Items receive the open menu's context, or one built from the pointer position
+   * over the map (or the map center) when the menu is closed. Shortcuts without
+   * Ctrl, Cmd or Alt only apply while the user is working with the map, and not
+   * while focus is in the open menu.
+   */
+  private _handleAcceleratorKeydown(ev: KeyboardEvent): void {
+    if (ev.defaultPrevented || isEditableElement(ev.target)) return;
+
+    // Leave copy and other shortcuts to the page while text is selected
+    if (window.getSelection()?.toString()) return;
+
+    const path = this._findAcceleratorPath(this.items, ev);
+    if (!path) return;
+
+    const item = path[path.length - 1] as ContextMenuItem;
+    if (isPlainShortcut(item.shortcut!)) {
+      // Typed letters in the open menu are for its own typeahead and navigation
+      if (!this._isUsingMap() || this._hasMenuFocus()) return;
+    }
+
+    let ctx: ContextMenuContext | null;
+    if (this.isOpen) {
+      ctx = this._shownContext();
+      if (!ctx) return;
+    } else {
+      const map = this._map!;
+      const point = this._pointerPoint ?? map.project(map.getCenter());
+      const features = this._queryFeatures(point);
+
+      // Leave the shortcut to other menus if this menu's target isn't there
+      if (features && features.length === 0) return;
+
+      ctx = this._createContext(this._createMapEvent(point, features));
+    }
+
+    // Hidden or disabled submenus and groups hide or disable their items
+    if (!path.every((ancestor) => ancestor.isEnabled(ctx))) return;
+
+    ev.preventDefault();
+    item.trigger(ctx);
+
+    if (this.isOpen && !item.keepsMenuOpen) {
+      this.hide();
+    }
+  }
+
+  /**
+   * The context the open menu's items are shown with: the picked feature's while the
+   * feature chooser is open, or `null` if no feature submenu is open.
+   */
+  private _shownContext(): ContextMenuContext | null {
+    const ctx = this._currentContext;
+    if (!ctx || !this._ownItems) return ctx;
+
+    const picked = this._items.find(
+      (item): item is FeatureSubmenu =>
+        item instanceof FeatureSubmenu && item.submenuOpen
+    );
+    return picked ? featureContext(ctx, picked.feature) : null;
+  }
+
+  /**
+   * Whether the menu is open with focus in it or one of its submenus.
+   */
+  private _hasMenuFocus(): boolean {
+    if (!this.isOpen) return false;
+
+    return (
+      !!this.menuElement?.contains(document.activeElement) ||
+      this.flatItems.some(
+        (item) => item instanceof ContextMenuSubmenu && item.hasSubmenuFocus()
+      )
+    );
+  }
+
+  /**
+   * Whether focus is in the map or its menu, or nothing has focus and the pointer
+   * is over the map.
+   */
+  private _isUsingMap(): boolean {
+    const active = document.activeElement;
+    if (active && active !== document.body) {
+      return this._map!.getContainer().contains(active);
+    }
+    return !!this._pointerPoint;
+  }
+
+  /**
+   * Finds the accelerator item matching a keydown, or the first accelerator item when
+   * there is no keydown, followed by the submenus and groups it is in.
+   * @returns The submenus and groups from the outermost, then the item, or `null` if there is no match.
+   */
+  private _findAcceleratorPath(
+    items: readonly MenuItem[],
+    ev: KeyboardEvent | null
+  ): Array<ContextMenuItem | ContextMenuGroup> | null {
+    for (const item of items) {
+      if (
+        item instanceof ContextMenuSubmenu ||
+        item instanceof ContextMenuGroup
+      ) {
+        const path = this._findAcceleratorPath(item.items, ev);
+        if (path) return [item, ...path];
+      } else if (
+        item instanceof ContextMenuItem &&
+        item.accelerator &&
+        item.shortcut !== undefined &&
+        (!ev || matchesShortcut(ev, item.shortcut))
+      ) {
+        return [item];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Listens for accelerator keys across the document only while the menu is on a map
+   * and has an accelerator item.
+   */
+  private _updateAcceleratorListener(): void {
+    const needed = !!this._map && !!this._findAcceleratorPath(this.items, null);
+
+    if (needed && !this._acceleratorHandler) {
+      this._acceleratorHandler = this._handleAcceleratorKeydown.bind(this);
+      document.addEventListener("keydown", this._acceleratorHandler);
+    } else if (!needed && this._acceleratorHandler) {
+      document.removeEventListener("keydown", this._acceleratorHandler);
+      this._acceleratorHandler = null;
+    }
+  }
+
   private _addMapEventListeners(): void {
     this._mapHandlers.contextmenu = (e: MapMouseEvent) => {
       e.preventDefault();
-      const ctx: ContextMenuContext = {
-        map: this._map!,
-        event: e,
-        menuWidth: this.width,
-        menuTheme: this._theme,
-        menuClassName: this._className
-      };
-      this.show(e.point.x, e.point.y, ctx);
+
+      // Some browsers also fire contextmenu for a touch hold; don't open twice
+      if (this._longPress) {
+        if (this._longPress.fired) return;
+        this._longPress.cancel();
+      }
+
+      this._open(e);
     };
 
     this._mapHandlers.mousedown = () => {
@@ -148,6 +942,14 @@ export default class MapboxContextMenu extends ContextMenu {
       this.hide();
     };
 
+    this._mapHandlers.mousemove = (e: MapMouseEvent) => {
+      this._pointerPoint = { x: e.point.x, y: e.point.y };
+    };
+
+    this._mapHandlers.mouseout = () => {
+      this._pointerPoint = null;
+    };
+
     const map = this._map!;
 
     // Use Interaction API for TargetDescriptor if available (Mapbox GL JS v3.9.0+)
@@ -177,6 +979,24 @@ export default class MapboxContextMenu extends ContextMenu {
 
     map.on("move", this._mapHandlers.move);
     map.on("mousedown", this._mapHandlers.mousedown);
+    map.on("mousemove", this._mapHandlers.mousemove);
+    map.on("mouseout", this._mapHandlers.mouseout);
+
+    this._updateAcceleratorListener();
+
+    if (this._longPressOptions) {
+      this._longPress = new LongPressHandler(
+        map,
+        this._handleLongPress.bind(this),
+        this._longPressOptions
+      );
+      this._longPress.enable();
+    }
+
+    if (this._keyboardOptions) {
+      this._canvasKeydownHandler = this._handleCanvasKeydown.bind(this);
+      map.getCanvas().addEventListener("keydown", this._canvasKeydownHandler);
+    }
   }
 
   private _removeMapEventListeners(): void {
@@ -185,6 +1005,24 @@ export default class MapboxContextMenu extends ContextMenu {
     const map = this._map;
     const usedInteractionApi = !!this._interactionId;
 
+    if (this._longPress) {
+      this._longPress.disable();
+      this._longPress = null;
+    }
+
+    if (this._acceleratorHandler) {
+      document.removeEventListener("keydown", this._acceleratorHandler);
+      this._acceleratorHandler = null;
+    }
+    this._pointerPoint = null;
+
+    if (this._canvasKeydownHandler) {
+      map
+        .getCanvas()
+        .removeEventListener("keydown", this._canvasKeydownHandler);
+      this._canvasKeydownHandler = null;
+    }
+
     // Remove interaction if using Interaction API
     if (
       this._interactionId &&
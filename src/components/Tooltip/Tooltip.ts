@@ -0,0 +1,126 @@
+import type { ContextMenuTheme } from "../ContextMenu/ContextMenu";
+import { createElement, uniqueId } from "../../util/dom";
+import { fitInContainer } from "../../util/position";
+import styles from "./Tooltip.module.scss";
+
+/** Space between the tooltip and the element it describes (in pixels) */
+const TOOLTIP_GAP = 6;
+
+/**
+ * Where the tooltip is shown relative to the element it describes. It moves to the
+ * opposite side when there isn't room, and is kept inside the container either way.
+ */
+export type TooltipPlacement = "right" | "bottom";
+
+/**
+ * A text bubble describing an element, linked to it with `aria-describedby`.
+ * @internal
+ */
+export default class Tooltip {
+  private _text: string = "";
+  private _id: string = uniqueId("context-menu-tooltip");
+  private _el: HTMLElement | null = null;
+
+  /**
+   * The id of the tooltip element, for `aria-describedby`.
+   */
+  get id(): string {
+    return this._id;
+  }
+
+  get text(): string {
+    return this._text;
+  }
+
+  set text(value: string) {
+    this._text = value;
+    if (this._el) {
+      this._el.textContent = value;
+    }
+  }
+
+  /**
+   * Whether the tooltip is currently shown.
+   */
+  get isOpen(): boolean {
+    return !!this._el?.classList.contains(styles.visible);
+  }
+
+  /**
+   * Shows the tooltip next to an element.
+   * @param anchor - The element the tooltip describes.
+   * @param container - The positioned element to show the tooltip in, such as the map container.
+   * @param theme - The theme of the menu the anchor is in, which the tooltip follows.
+   * @param placement - Which side of the anchor to show the tooltip on.
+   */
+  show(
+    anchor: HTMLElement,
+    container: HTMLElement,
+    theme: ContextMenuTheme = "auto",
+    placement: TooltipPlacement = "right"
+  ): void {
+    if (!this._el) {
+      this._el = createElement("div", {
+        id: this._id,
+        role: "tooltip",
+        class: styles.tooltip
+      });
+      this._el.textContent = this._text;
+    }
+    // The tooltip is outside the menu, so it doesn't inherit the menu's theme class
+    this._el.classList.toggle("themeLight", theme === "light");
+    this._el.classList.toggle("themeDark", theme === "dark");
+    if (this._el.parentElement !== container) {
+      container.appendChild(this._el);
+    }
+
+    const el = this._el;
+    const anchorRect = anchor.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    const size = { width: el.offsetWidth, height: el.offsetHeight };
+    const bounds = {
+      width: containerRect.width,
+      height: containerRect.height
+    };
+
+    const anchorLeft = anchorRect.left - containerRect.left;
+    const anchorTop = anchorRect.top - containerRect.top;
+
+    let x: number;
+    let y: number;
+
+    if (placement === "right") {
+      x = anchorLeft + anchorRect.width + TOOLTIP_GAP;
+      y = anchorTop + (anchorRect.height - size.height) / 2;
+      if (x + size.width > bounds.width) {
+        x = anchorLeft - TOOLTIP_GAP - size.width;
+      }
+    } else {
+      x = anchorLeft + (anchorRect.width - size.width) / 2;
+      y = anchorTop + anchorRect.height + TOOLTIP_GAP;
+      if (y + size.height > bounds.height) {
+        y = anchorTop - TOOLTIP_GAP - size.height;
+      }
+    }
+
+    const { left, top } = fitInContainer(x, y, size, bounds);
+    el.style.left = `${left}px`;
+    el.style.top = `${top}px`;
+    el.classList.add(styles.visible);
+  }
+
+  /**
+   * Hides the tooltip, keeping its element so `aria-describedby` still resolves.
+   */
+  hide(): void {
+    this._el?.classList.remove(styles.visible);
+  }
+
+  /**
+   * Removes the tooltip element from the DOM.
+   */
+  remove(): void {
+    this._el?.remove();
+    this._el = null;
+  }
+}
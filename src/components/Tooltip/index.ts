@@ -0,0 +1,2 @@
+export { default } from "./Tooltip";
+export type { TooltipPlacement } from "./Tooltip";
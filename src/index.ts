@@ -1,8 +1,32 @@
 export { default as MapboxContextMenu } from "./components/MapboxContextMenu/MapboxContextMenu";
-export type { MapboxContextMenuOptions } from "./components/MapboxContextMenu/MapboxContextMenu";
+export type {
+  FeatureChooserOptions,
+  HighlightOptions,
+  KeyboardOptions,
+  LocationMarkerOptions,
+  MapboxContextMenuOptions
+} from "./components/MapboxContextMenu/MapboxContextMenu";
 
 export { default as ContextMenuItem } from "./components/ContextMenuItem/ContextMenuItem";
-export type { ContextMenuItemOptions } from "./components/ContextMenuItem/ContextMenuItem";
+export type {
+  ContextMenuItemConfirmOptions,
+  ContextMenuItemOptions
+} from "./components/ContextMenuItem/ContextMenuItem";
+
+export { default as ContextMenuCheckboxItem } from "./components/ContextMenuCheckboxItem";
+export type { ContextMenuCheckboxItemOptions } from "./components/ContextMenuCheckboxItem";
+
+export { default as ContextMenuCopyCoordinatesItem } from "./components/ContextMenuCopyCoordinatesItem";
+export type { ContextMenuCopyCoordinatesItemOptions } from "./components/ContextMenuCopyCoordinatesItem";
+
+export { default as ContextMenuLinkItem } from "./components/ContextMenuLinkItem";
+export type { ContextMenuLinkItemOptions } from "./components/ContextMenuLinkItem";
+
+export { default as ContextMenuRadioGroup } from "./components/ContextMenuRadioGroup";
+export type { ContextMenuRadioGroupOptions } from "./components/ContextMenuRadioGroup";
+
+export { default as ContextMenuRadioItem } from "./components/ContextMenuRadioItem";
+export type { ContextMenuRadioItemOptions } from "./components/ContextMenuRadioItem";
 
 export { default as ContextMenuLabel } from "./components/ContextMenuLabel";
 export type { ContextMenuLabelOptions } from "./components/ContextMenuLabel";
@@ -13,9 +37,60 @@ export type { ContextMenuSeparatorOptions } from "./components/ContextMenuSepara
 export { default as ContextMenuSubmenu } from "./components/ContextMenuSubmenu";
 export type { ContextMenuSubmenuOptions } from "./components/ContextMenuSubmenu";
 
+export { default as ContextMenuCustomItem } from "./components/ContextMenuCustomItem";
+export type { ContextMenuCustomItemOptions } from "./components/ContextMenuCustomItem";
+
+export { default as ContextMenuRangeItem } from "./components/ContextMenuRangeItem";
+export type { ContextMenuRangeItemOptions } from "./components/ContextMenuRangeItem";
+
+export { default as ContextMenuToolbar } from "./components/ContextMenuToolbar";
+export type { ContextMenuToolbarOptions } from "./components/ContextMenuToolbar";
+
+export { default as ContextMenuToolbarButton } from "./components/ContextMenuToolbarButton";
+export type { ContextMenuToolbarButtonOptions } from "./components/ContextMenuToolbarButton";
+
+export { default as ContextMenuGroup } from "./components/ContextMenuGroup";
+export type {
+  ContextMenuGroupItem,
+  ContextMenuGroupOptions
+} from "./components/ContextMenuGroup";
+
+export { default as ContextMenuSearch } from "./components/ContextMenuSearch";
+export type { ContextMenuSearchOptions } from "./components/ContextMenuSearch";
+
+export type { LongPressOptions } from "./util/longpress";
+
+export { formatCoordinates } from "./util/coordinates";
+export type {
+  ClipboardWriter,
+  CoordinateFormat,
+  CoordinateFormatOptions
+} from "./util/coordinates";
+
+export { ContextMenuSpecError } from "./util/spec";
+
 export type {
   Content,
+  ContextMenuActionItemSpec,
+  ContextMenuActions,
+  ContextMenuCheckboxItemEvent,
+  ContextMenuContext,
+  ContextMenuCopyEvent,
   ContextMenuEvent,
+  ContextMenuExpression,
   ContextMenuItemEvent,
+  ContextMenuItemSpec,
+  ContextMenuLabelSpec,
+  ContextMenuRadioGroupEvent,
+  ContextMenuRangeItemEvent,
+  ContextMenuSeparatorSpec,
+  ContextMenuSpec,
+  ContextMenuSubmenuSpec,
+  ContextMenuToolbarButtonEvent,
+  ContextValue,
+  Focusable,
+  ItemsProvider,
+  ItemsProviderOptions,
+  MenuItem,
   SlotOptions
 } from "./types";
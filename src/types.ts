@@ -1,9 +1,19 @@
 import type { Map, MapMouseEvent } from "mapbox-gl";
 import type ContextMenu from "./components/ContextMenu/ContextMenu";
 import type ContextMenuItem from "./components/ContextMenuItem";
+import type ContextMenuCheckboxItem from "./components/ContextMenuCheckboxItem";
+import type ContextMenuRadioGroup from "./components/ContextMenuRadioGroup";
+import type ContextMenuRadioItem from "./components/ContextMenuRadioItem";
 import type ContextMenuLabel from "./components/ContextMenuLabel";
 import type ContextMenuSeparator from "./components/ContextMenuSeparator";
 import type ContextMenuSubmenu from "./components/ContextMenuSubmenu";
+import type ContextMenuSearch from "./components/ContextMenuSearch";
+import type ContextMenuGroup from "./components/ContextMenuGroup";
+import type ContextMenuCustomItem from "./components/ContextMenuCustomItem";
+import type ContextMenuRangeItem from "./components/ContextMenuRangeItem";
+import type ContextMenuToolbarButton from "./components/ContextMenuToolbarButton";
+import type ContextMenuCopyCoordinatesItem from "./components/ContextMenuCopyCoordinatesItem";
+import type { CoordinateFormat } from "./util/coordinates";
 import type { ContextMenuTheme } from "./components/ContextMenu/ContextMenu";
 
 /**
@@ -21,14 +31,28 @@ export interface ContextMenuContext {
   menuTheme?: ContextMenuTheme;
   /** The custom CSS class name for the menu, if set. */
   menuClassName?: string;
+  /** Whether keyboard focus wraps around the menu, if set. */
+  menuWrapFocus?: boolean;
+  /** The configured maximum menu height, if set. */
+  menuMaxHeight?: string | number;
+  /**
+   * The feature picked in the feature chooser, for items nested under it. The event's
+   * `features` then holds only this feature.
+   */
+  feature?: GeoJSON.Feature;
 }
 
+/**
+ * A value that is either fixed or computed from the context each time the menu is shown.
+ */
+export type ContextValue<T> = T | ((ctx: ContextMenuContext) => T);
+
 /**
  * Event object passed to MapboxContextMenu event handlers.
  */
 export interface ContextMenuEvent {
-  /** The event type. */
-  type: "show" | "hide";
+  /** The event type: "show", "hide", or "error" if the items provider failed. */
+  type: "show" | "hide" | "error";
   /** The context menu that fired the event. */
   target: ContextMenu;
   /** The original DOM contextmenu event. */
@@ -41,6 +65,8 @@ export interface ContextMenuEvent {
   features?: Array<GeoJSON.Feature>;
   /** The Mapbox GL or Maplibre GL map instance. */
   map: Map;
+  /** Why the items provider failed, for "error" events. */
+  error?: unknown;
 }
 
 /**
@@ -59,10 +85,94 @@ export interface ContextMenuItemEvent {
   lngLat: { lng: number; lat: number };
   /** Features at the click location, if the menu was bound to specific layers. */
   features?: Array<GeoJSON.Feature>;
+  /**
+   * The feature the user picked in the feature chooser, or the only feature at the
+   * click location. `undefined` when several features were hit and none was picked.
+   */
+  feature?: GeoJSON.Feature;
   /** The Mapbox GL or Maplibre GL map instance. */
   map: Map;
 }
 
+/**
+ * Event object passed to ContextMenuCheckboxItem "change" event handlers.
+ */
+export interface ContextMenuCheckboxItemEvent extends Omit<
+  ContextMenuItemEvent,
+  "type" | "target"
+> {
+  /** The event type. */
+  type: "change";
+  /** The checkbox item that fired the event. */
+  target: ContextMenuCheckboxItem;
+  /** The new checked state. */
+  checked: boolean;
+}
+
+/**
+ * Event object passed to ContextMenuCopyCoordinatesItem "copy" and "error" event handlers.
+ */
+export interface ContextMenuCopyEvent extends Omit<
+  ContextMenuItemEvent,
+  "type" | "target"
+> {
+  /** The event type: "copy" once the text is on the clipboard, "error" if writing it failed. */
+  type: "copy" | "error";
+  /** The copy coordinates item that fired the event. */
+  target: ContextMenuCopyCoordinatesItem;
+  /** The formatted coordinates. */
+  text: string;
+  /** The format of the text. */
+  format: CoordinateFormat;
+  /** Why the coordinates couldn't be copied, for "error" events. */
+  error?: unknown;
+}
+
+/**
+ * Event object passed to ContextMenuRangeItem "input" and "change" event handlers.
+ */
+export interface ContextMenuRangeItemEvent extends Omit<
+  ContextMenuItemEvent,
+  "type" | "target" | "originalEvent"
+> {
+  /** The event type. */
+  type: "input" | "change";
+  /** The range item that fired the event. */
+  target: ContextMenuRangeItem;
+  /** The original DOM input or change event. */
+  originalEvent: Event;
+  /** The new value. */
+  value: number;
+}
+
+/**
+ * Event object passed to ContextMenuToolbarButton "click" event handlers.
+ */
+export interface ContextMenuToolbarButtonEvent extends Omit<
+  ContextMenuItemEvent,
+  "target"
+> {
+  /** The toolbar button that fired the event. */
+  target: ContextMenuToolbarButton;
+}
+
+/**
+ * Event object passed to ContextMenuRadioGroup "change" event handlers.
+ */
+export interface ContextMenuRadioGroupEvent extends Omit<
+  ContextMenuItemEvent,
+  "type" | "target"
+> {
+  /** The event type. */
+  type: "change";
+  /** The radio group that fired the event. */
+  target: ContextMenuRadioGroup;
+  /** The radio item that was selected. */
+  item: ContextMenuRadioItem;
+  /** The new value of the group. */
+  value: string;
+}
+
 /**
  * Interface for menu items that can receive keyboard focus.
  */
@@ -75,9 +185,34 @@ export interface Focusable {
 
 export type MenuItem =
   | ContextMenuItem
+  | ContextMenuCheckboxItem
+  | ContextMenuRadioItem
   | ContextMenuLabel
   | ContextMenuSeparator
-  | ContextMenuSubmenu;
+  | ContextMenuSubmenu
+  | ContextMenuSearch
+  | ContextMenuGroup
+  | ContextMenuCustomItem;
+
+/**
+ * Supplies menu items for the context the menu is shown with, e.g. from server data.
+ */
+export type ItemsProvider = (
+  ctx: ContextMenuContext
+) => Promise<MenuItem[]> | MenuItem[];
+
+/**
+ * Options for {@link ContextMenu.setItemsProvider}.
+ */
+export interface ItemsProviderOptions {
+  /**
+   * Whether to call the provider only the first time the menu is shown and keep its items.
+   * Use this to load a submenu's children lazily. Defaults to `false`.
+   */
+  cache?: boolean;
+  /** Text for the placeholder row shown while items are loading. Defaults to "Loading…". */
+  loadingText?: string;
+}
 
 /**
  * Options for creating a slot element via object notation.
@@ -101,6 +236,104 @@ export interface SlotOptions {
  */
 export type Content = string | HTMLElement | SlotOptions;
 
+/**
+ * A Mapbox-style expression evaluated against the first feature at the clicked location,
+ * e.g. `["==", ["get", "type"], "park"]`, or a constant value.
+ *
+ * Supported operators: `literal`, `get`, `has`, `id`, `geometry-type`, `zoom`, `!`, `==`,
+ * `!=`, `<`, `<=`, `>`, `>=`, `all`, `any`, `in`, `case`, `match`, `coalesce`,
+ * `to-boolean`, `to-number` and `to-string`.
+ */
+export type ContextMenuExpression =
+  boolean | number | string | null | unknown[];
+
+/**
+ * Describes a menu item that performs an action in a {@link ContextMenuSpec}.
+ */
+export interface ContextMenuActionItemSpec {
+  /** The item type. Defaults to `"item"`. */
+  type?: "item";
+  /** The text label to display. */
+  label: string;
+  /** CSS class name(s) for an icon shown before the label, e.g. `"fa-solid fa-copy"`. */
+  icon?: string;
+  /** The name of the action in the registry to run when the item is clicked. */
+  action?: string;
+  /** A keyboard shortcut hint, e.g. `"Mod+C"`. */
+  shortcut?: string;
+  /** Whether the shortcut triggers the item even when the menu is closed. Defaults to `false`. */
+  accelerator?: boolean;
+  /** The item's color scheme. Defaults to `"default"`. */
+  variant?: "default" | "danger";
+  /** Whether the item is shown. Defaults to `true`. */
+  visible?: ContextMenuExpression;
+  /** Whether the item is disabled. Defaults to `false`. */
+  disabled?: ContextMenuExpression;
+  /** Why the item is disabled, shown in a tooltip. */
+  disabledReason?: string;
+}
+
+/**
+ * Describes a section label in a {@link ContextMenuSpec}.
+ */
+export interface ContextMenuLabelSpec {
+  /** The item type. */
+  type: "label";
+  /** The label text. */
+  label: string;
+}
+
+/**
+ * Describes a separator in a {@link ContextMenuSpec}.
+ */
+export interface ContextMenuSeparatorSpec {
+  /** The item type. */
+  type: "separator";
+}
+
+/**
+ * Describes a submenu in a {@link ContextMenuSpec}.
+ */
+export interface ContextMenuSubmenuSpec {
+  /** The item type. */
+  type: "submenu";
+  /** The text label to display. */
+  label: string;
+  /** CSS class name(s) for an icon shown before the label. */
+  icon?: string;
+  /** The items in the submenu. */
+  items: ContextMenuItemSpec[];
+  /** Whether the submenu is shown. Defaults to `true`. */
+  visible?: ContextMenuExpression;
+  /** Whether the submenu is disabled. Defaults to `false`. */
+  disabled?: ContextMenuExpression;
+}
+
+/**
+ * Describes one item in a {@link ContextMenuSpec}.
+ */
+export type ContextMenuItemSpec =
+  | ContextMenuActionItemSpec
+  | ContextMenuLabelSpec
+  | ContextMenuSeparatorSpec
+  | ContextMenuSubmenuSpec;
+
+/**
+ * A JSON description of a menu's items, for `MapboxContextMenu.fromSpec`.
+ */
+export interface ContextMenuSpec {
+  /** The items in the menu. */
+  items: ContextMenuItemSpec[];
+}
+
+/**
+ * Handlers that spec items refer to by name in their `action`.
+ */
+export type ContextMenuActions = Record<
+  string,
+  (ev: ContextMenuItemEvent) => void
+>;
+
 /**
  * Featureset descriptor for targeting featuresets in imported basemaps.
  * Requires Mapbox GL JS v3.9.0 or later.
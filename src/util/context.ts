@@ -0,0 +1,29 @@
+import type { ContextMenuContext, ContextValue } from "../types";
+
+/**
+ * Resolves a context-dependent value. Returns `undefined` if the value is a
+ * function and there is no context to evaluate it with yet.
+ * @internal
+ */
+export function resolveContextValue<T>(
+  value: ContextValue<T>,
+  ctx: ContextMenuContext | null
+): T | undefined {
+  if (typeof value !== "function") return value;
+  if (!ctx) return undefined;
+  return (value as (ctx: ContextMenuContext) => T)(ctx);
+}
+
+/**
+ * The feature a context applies to: the one picked in a feature chooser, or the
+ * only feature at the click location.
+ * @internal
+ */
+export function contextFeature(
+  ctx: ContextMenuContext
+): GeoJSON.Feature | undefined {
+  if (ctx.feature) return ctx.feature;
+
+  const features = ctx.event.features;
+  return features?.length === 1 ? features[0] : undefined;
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { formatCoordinates } from "./coordinates";
+
+const pittsburgh = { lat: 40.446111, lng: -79.982222 };
+const zurich = { lat: 47.36559, lng: 8.524997 };
+const sydney = { lat: -33.8568, lng: 151.2153 };
+
+describe("formatCoordinates", () => {
+  it("writes each format's documented example", () => {
+    expect(formatCoordinates(pittsburgh)).toBe("40.446111, -79.982222");
+    expect(formatCoordinates(pittsburgh, "dms")).toBe(
+      `40°26'46.0"N 79°58'56.0"W`
+    );
+    expect(formatCoordinates(pittsburgh, "ddm")).toBe(
+      "40°26.767'N 79°58.933'W"
+    );
+    expect(formatCoordinates(pittsburgh, "utm")).toBe("17T 586310 4477770");
+    expect(formatCoordinates(pittsburgh, "mgrs")).toBe("17T NE 86309 77770");
+    expect(formatCoordinates(pittsburgh, "geohash")).toBe("dppn5fyxx");
+    expect(formatCoordinates(pittsburgh, "olc")).toBe("87G2C2W9+C4");
+  });
+
+  it("orders and rounds decimal degrees", () => {
+    expect(
+      formatCoordinates(pittsburgh, "decimal", {
+        order: "lnglat",
+        precision: 2
+      })
+    ).toBe("-79.98, 40.45");
+  });
+
+  it("wraps longitudes and clamps latitudes", () => {
+    expect(formatCoordinates({ lat: 10, lng: 200 }, "decimal")).toBe(
+      "10.000000, -160.000000"
+    );
+    expect(formatCoordinates({ lat: 95, lng: 0 }, "decimal")).toBe(
+      "90.000000, 0.000000"
+    );
+  });
+
+  it("carries rounded seconds and minutes into the next unit", () => {
+    const nearlyOne = { lat: 0.5, lng: 0.999999999 };
+    expect(formatCoordinates(nearlyOne, "dms")).toBe(
+      `0°30'00.0"N 1°00'00.0"E`
+    );
+    expect(formatCoordinates(nearlyOne, "ddm")).toBe("0°30.000'N 1°00.000'E");
+  });
+
+  it("uses the southern hemisphere's false northing", () => {
+    expect(formatCoordinates(sydney, "utm")).toBe("56H 334901 6252289");
+    expect(formatCoordinates(sydney, "mgrs")).toBe("56H LH 34900 52288");
+  });
+
+  it("truncates MGRS references to the requested precision", () => {
+    expect(formatCoordinates(pittsburgh, "mgrs", { precision: 3 })).toBe(
+      "17T NE 863 777"
+    );
+    expect(formatCoordinates(pittsburgh, "mgrs", { precision: 1 })).toBe(
+      "17T NE 8 7"
+    );
+  });
+
+  it("uses zone 32 for southwest Norway", () => {
+    const bergen = { lat: 60.39, lng: 5.32 };
+    expect(formatCoordinates(bergen, "utm")).toBe("32V 297230 6700510");
+    expect(formatCoordinates(bergen, "mgrs")).toBe("32V KN 97230 00510");
+  });
+
+  it("uses the odd zones 31 to 37 for Svalbard", () => {
+    const zone = (lng: number) =>
+      formatCoordinates({ lat: 78, lng }, "utm").split(" ")[0];
+
+    expect(zone(8)).toBe("31X");
+    expect(zone(20)).toBe("33X");
+    expect(zone(32)).toBe("35X");
+    expect(zone(40)).toBe("37X");
+    expect(zone(45)).toBe("38X");
+    expect(formatCoordinates({ lat: 78, lng: 8 }, "mgrs")).toBe(
+      "31X FG 15914 63320"
+    );
+  });
+
+  it("stretches band X to 84°N", () => {
+    expect(formatCoordinates({ lat: 83.5, lng: 0 }, "utm")).toBe(
+      "31X 462101 9273262"
+    );
+  });
+
+  it("throws outside the UTM latitudes", () => {
+    expect(() => formatCoordinates({ lat: 84.5, lng: 0 }, "utm")).toThrow(
+      RangeError
+    );
+    expect(() => formatCoordinates({ lat: -80.5, lng: 0 }, "mgrs")).toThrow(
+      "UTM and MGRS are only defined between 80°S and 84°N"
+    );
+  });
+
+  it("writes geohashes of the requested length", () => {
+    expect(
+      formatCoordinates({ lat: 42.6, lng: -5.6 }, "geohash", { precision: 5 })
+    ).toBe("ezs42");
+    expect(
+      formatCoordinates({ lat: 57.64911, lng: 10.40744 }, "geohash", {
+        precision: 11
+      })
+    ).toBe("u4pruydqqvj");
+  });
+
+  it("writes plus codes of the requested length", () => {
+    expect(formatCoordinates(zurich, "olc")).toBe("8FVC9G8F+6X");
+    expect(formatCoordinates(zurich, "olc", { precision: 4 })).toBe(
+      "8FVC0000+"
+    );
+    // Codes shorter than ten digits are made of whole pairs
+    expect(formatCoordinates(zurich, "olc", { precision: 7 })).toBe(
+      "8FVC9G00+"
+    );
+  });
+
+  it("encodes the north pole in the cell below it", () => {
+    const northPole = { lat: 90, lng: 1 };
+    expect(formatCoordinates(northPole, "olc", { precision: 4 })).toBe(
+      "CFX30000+"
+    );
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * A way of writing a location as text.
+ * - `"decimal"`: decimal degrees, e.g. `40.446111, -79.982222`
+ * - `"dms"`: degrees, minutes and seconds, e.g. `40°26'46.0"N 79°58'56.0"W`
+ * - `"ddm"`: degrees and decimal minutes, e.g. `40°26.767'N 79°58.933'W`
+ * - `"utm"`: Universal Transverse Mercator, e.g. `17T 586310 4477770`
+ * - `"mgrs"`: Military Grid Reference System, e.g. `17T NE 86309 77770`
+ * - `"geohash"`: a geohash, e.g. `dppn5fyxx`
+ * - `"olc"`: an Open Location Code (plus code), e.g. `87G2C2W9+C4`
+ */
+export type CoordinateFormat =
+  "decimal" | "dms" | "ddm" | "utm" | "mgrs" | "geohash" | "olc";
+
+/**
+ * Options for formatting coordinates.
+ */
+export interface CoordinateFormatOptions {
+  /**
+   * How precise the text is. What it counts depends on the format:
+   * - `"decimal"`: decimal places of the degrees. Defaults to 6.
+   * - `"dms"`: decimal places of the seconds. Defaults to 1.
+   * - `"ddm"`: decimal places of the minutes. Defaults to 3.
+   * - `"utm"`: decimal places of the metres. Defaults to 0.
+   * - `"mgrs"`: digits of the easting and northing, from 1 (10 km) to 5 (1 m). Defaults to 5.
+   * - `"geohash"`: characters in the hash, from 1 to 12. Defaults to 9.
+   * - `"olc"`: digits in the code, 2, 4, 6, 8 or 10 to 15. Defaults to 10.
+   */
+  precision?: number;
+  /** Whether decimal degrees start with the latitude or the longitude. Defaults to `"latlng"`. */
+  order?: "latlng" | "lnglat";
+}
+
+/**
+ * Writes text to the clipboard. Browsers provide one as `navigator.clipboard`; pass
+ * another to copy somewhere else, or to test without clipboard permissions.
+ */
+export interface ClipboardWriter {
+  writeText(text: string): Promise<void>;
+}
+
+const DEFAULT_PRECISION: Record<CoordinateFormat, number> = {
+  decimal: 6,
+  dms: 1,
+  ddm: 3,
+  utm: 0,
+  mgrs: 5,
+  geohash: 9,
+  olc: 10
+};
+
+/** WGS 84 semi-major axis (in metres) */
+const WGS84_A = 6378137;
+/** WGS 84 flattening */
+const WGS84_F = 1 / 298.257223563;
+/** Scale factor on the central meridian of a UTM zone */
+const UTM_K0 = 0.9996;
+
+/** UTM latitude bands, each 8° tall from 80°S, with X stretched to 84°N */
+const UTM_BANDS = "CDEFGHJKLMNPQRSTUVWX";
+/** MGRS 100 km column letters, in three sets that repeat every three zones */
+const MGRS_COLUMNS = ["ABCDEFGH", "JKLMNPQR", "STUVWXYZ"];
+/** MGRS 100 km row letters, offset by five in even zones */
+const MGRS_ROWS = "ABCDEFGHJKLMNPQRSTUV";
+
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+const OLC_ALPHABET = "23456789CFGHJMPQRVWX";
+/** Latitude and longitude units per degree at the full 15 digit precision */
+const OLC_LAT_PRECISION = 8000 * 5 ** 5;
+const OLC_LNG_PRECISION = 8000 * 4 ** 5;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function wrapLng(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+function pad(value: number | string, length: number): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * Splits an angle into whole degrees and the remainder in `parts` per degree,
+ * rounded to `precision` decimal places without ever showing e.g. 60 seconds.
+ */
+function sexagesimal(
+  value: number,
+  parts: number,
+  precision: number
+): [number, number] {
+  const scale = 10 ** precision;
+  const units = Math.round(Math.abs(value) * parts * scale);
+  const degrees = Math.floor(units / (parts * scale));
+  return [degrees, (units - degrees * parts * scale) / scale];
+}
+
+function formatDms(lat: number, lng: number, precision: number): string {
+  const format = (value: number, hemispheres: string) => {
+    const [degrees, totalSeconds] = sexagesimal(value, 3600, precision);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = (totalSeconds - minutes * 60).toFixed(precision);
+    const hemisphere = hemispheres[value < 0 ? 1 : 0];
+    return `${degrees}°${pad(minutes, 2)}'${pad(seconds, precision > 0 ? precision + 3 : 2)}"${hemisphere}`;
+  };
+  return `${format(lat, "NS")} ${format(lng, "EW")}`;
+}
+
+function formatDdm(lat: number, lng: number, precision: number): string {
+  const format = (value: number, hemispheres: string) => {
+    const [degrees, minutes] = sexagesimal(value, 60, precision);
+    const text = minutes.toFixed(precision);
+    const hemisphere = hemispheres[value < 0 ? 1 : 0];
+    return `${degrees}°${pad(text, precision > 0 ? precision + 3 : 2)}'${hemisphere}`;
+  };
+  return `${format(lat, "NS")} ${format(lng, "EW")}`;
+}
+
+interface UtmPosition {
+  zone: number;
+  band: string;
+  easting: number;
+  northing: number;
+}
+
+function utmZone(lat: number, lng: number): number {
+  // Exceptions for southwest Norway and Svalbard
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32;
+  if (lat >= 72 && lng >= 0 && lng < 42) {
+    if (lng < 9) return 31;
+    if (lng < 21) return 33;
+    if (lng < 33) return 35;
+    return 37;
+  }
+  return Math.min(Math.floor((lng + 180) / 6) + 1, 60);
+}
+
+function toUtm(lat: number, lng: number): UtmPosition {
+  if (lat < -80 || lat > 84) {
+    throw new RangeError("UTM and MGRS are only defined between 80°S and 84°N");
+  }
+
+  const zone = utmZone(lat, lng);
+  const band = UTM_BANDS[Math.min(Math.floor((lat + 80) / 8), 19)];
+
+  const e2 = WGS84_F * (2 - WGS84_F);
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  const ep2 = e2 / (1 - e2);
+
+  const phi = (lat * Math.PI) / 180;
+  const lambda0 = (((zone - 1) * 6 - 180 + 3) * Math.PI) / 180;
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+
+  const n = WGS84_A / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = ep2 * cosPhi * cosPhi;
+  const a = cosPhi * ((lng * Math.PI) / 180 - lambda0);
+  const m =
+    WGS84_A *
+    ((1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+      ((35 * e6) / 3072) * Math.sin(6 * phi));
+
+  const easting =
+    UTM_K0 *
+      n *
+      (a +
+        ((1 - t + c) * a ** 3) / 6 +
+        ((5 - 18 * t + t * t + 72 * c - 58 * ep2) * a ** 5) / 120) +
+    500000;
+  let northing =
+    UTM_K0 *
+    (m +
+      n *
+        tanPhi *
+        ((a * a) / 2 +
+          ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+          ((61 - 58 * t + t * t + 600 * c - 330 * ep2) * a ** 6) / 720));
+  if (lat < 0) northing += 10000000;
+
+  return { zone, band, easting, northing };
+}
+
+function formatUtm(lat: number, lng: number, precision: number): string {
+  const { zone, band, easting, northing } = toUtm(lat, lng);
+  return `${zone}${band} ${easting.toFixed(precision)} ${northing.toFixed(precision)}`;
+}
+
+function formatMgrs(lat: number, lng: number, precision: number): string {
+  const { zone, band, easting, northing } = toUtm(lat, lng);
+
+  const column = MGRS_COLUMNS[(zone - 1) % 3][Math.floor(easting / 100000) - 1];
+  const row =
+    MGRS_ROWS[(Math.floor(northing / 100000) + (zone % 2 === 0 ? 5 : 0)) % 20];
+
+  // MGRS truncates rather than rounds, so a reference names the square it is in
+  const divisor = 10 ** (5 - precision);
+  const e = pad(Math.floor((easting % 100000) / divisor), precision);
+  const n = pad(Math.floor((northing % 100000) / divisor), precision);
+
+  return `${zone}${band} ${column}${row} ${e} ${n}`;
+}
+
+function formatGeohash(lat: number, lng: number, precision: number): string {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let hash = "";
+  let bits = 0;
+  let index = 0;
+  let even = true;
+
+  while (hash.length < precision) {
+    const range = even ? lngRange : latRange;
+    const value = even ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    index <<= 1;
+    if (value >= mid) {
+      index |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    even = !even;
+
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[index];
+      bits = 0;
+      index = 0;
+    }
+  }
+
+  return hash;
+}
+
+function formatOlc(lat: number, lng: number, length: number): string {
+  let latValue = Math.floor(
+    Math.round((lat + 90) * OLC_LAT_PRECISION * 1e6) / 1e6
+  );
+  let lngValue = Math.floor(
+    Math.round((lng + 180) * OLC_LNG_PRECISION * 1e6) / 1e6
+  );
+  // The north pole is encoded in the cell just below it
+  latValue = Math.min(latValue, 180 * OLC_LAT_PRECISION - 1);
+  lngValue = lngValue % (360 * OLC_LNG_PRECISION);
+
+  let code = "";
+
+  // Digits after the tenth divide each cell into a 4 by 5 grid
+  for (let i = 0; i < 5; i++) {
+    code = OLC_ALPHABET[(latValue % 5) * 4 + (lngValue % 4)] + code;
+    latValue = Math.floor(latValue / 5);
+    lngValue = Math.floor(lngValue / 4);
+  }
+
+  // The first ten digits are pairs of base 20 latitude and longitude digits
+  for (let i = 0; i < 5; i++) {
+    code = OLC_ALPHABET[latValue % 20] + OLC_ALPHABET[lngValue % 20] + code;
+    latValue = Math.floor(latValue / 20);
+    lngValue = Math.floor(lngValue / 20);
+  }
+
+  if (length < 8) {
+    return `${code.slice(0, length)}${"0".repeat(8 - length)}+`;
+  }
+  return `${code.slice(0, 8)}+${code.slice(8, length)}`;
+}
+
+function formatDecimal(
+  lat: number,
+  lng: number,
+  precision: number,
+  order: "latlng" | "lnglat"
+): string {
+  const latText = lat.toFixed(precision);
+  const lngText = lng.toFixed(precision);
+  return order === "lnglat"
+    ? `${lngText}, ${latText}`
+    : `${latText}, ${lngText}`;
+}
+
+/**
+ * Formats a location as text, e.g. for copying to the clipboard.
+ *
+ * @example
+ * ```ts
+ * item.on("click", ({ lngLat }) => {
+ *   console.log(formatCoordinates(lngLat, "dms")); // 40°26'46.0"N 79°58'56.0"W
+ * });
+ * ```
+ *
+ * @param lngLat - The location. Longitudes outside -180 to 180 are wrapped.
+ * @param format - How to write the location. Defaults to `"decimal"`.
+ * @param options - Options such as the precision.
+ * @returns The formatted location.
+ * @throws {RangeError} If the format is `"utm"` or `"mgrs"` and the location is outside 80°S to 84°N.
+ */
+export function formatCoordinates(
+  lngLat: { lng: number; lat: number },
+  format: CoordinateFormat = "decimal",
+  options?: CoordinateFormatOptions
+): string {
+  const lat = clamp(lngLat.lat, -90, 90);
+  const lng = wrapLng(lngLat.lng);
+  const precision = Math.round(options?.precision ?? DEFAULT_PRECISION[format]);
+
+  switch (format) {
+    case "dms":
+      return formatDms(lat, lng, clamp(precision, 0, 6));
+    case "ddm":
+      return formatDdm(lat, lng, clamp(precision, 0, 8));
+    case "utm":
+      return formatUtm(lat, lng, clamp(precision, 0, 3));
+    case "mgrs":
+      return formatMgrs(lat, lng, clamp(precision, 1, 5));
+    case "geohash":
+      return formatGeohash(lat, lng, clamp(precision, 1, 12));
+    case "olc": {
+      const length = clamp(precision, 2, 15);
+      // Codes shorter than ten digits are made of whole pairs
+      return formatOlc(lat, lng, length < 10 ? length - (length % 2) : length);
+    }
+    default:
+      return formatDecimal(
+        lat,
+        lng,
+        clamp(precision, 0, 10),
+        options?.order ?? "latlng"
+      );
+  }
+}
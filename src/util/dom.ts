@@ -18,6 +18,30 @@ export function createElement(
   return el;
 }
 
+let idCounter = 0;
+
+/**
+ * Creates an id that is unique within the page, for linking elements with ARIA attributes.
+ */
+export function uniqueId(prefix: string): string {
+  idCounter += 1;
+  return `${prefix}-${idCounter}`;
+}
+
+/**
+ * Whether an event target is a control the user types into, where keyboard
+ * shortcuts should not be intercepted.
+ */
+export function isEditableElement(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target.isContentEditable
+  );
+}
+
 /**
  * Creates an HTMLElement from slot content, merging with defaults.
  * - `undefined`: Returns null
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import type { ContextMenuContext } from "../types";
+import { evaluateExpression, validateExpression } from "./expression";
+
+function contextWith(feature?: Partial<GeoJSON.Feature>): ContextMenuContext {
+  return {
+    map: { getZoom: () => 12 },
+    event: { features: feature ? [feature] : [] }
+  } as unknown as ContextMenuContext;
+}
+
+const park = contextWith({
+  id: 7,
+  geometry: { type: "Polygon", coordinates: [] },
+  properties: { type: "park", area: 120, name: null }
+});
+
+describe("evaluateExpression", () => {
+  it("returns constants as they are", () => {
+    expect(evaluateExpression(true, park)).toBe(true);
+    expect(evaluateExpression("park", park)).toBe("park");
+  });
+
+  it("reads the first feature's properties, id and geometry type", () => {
+    expect(evaluateExpression(["get", "type"], park)).toBe("park");
+    expect(evaluateExpression(["get", "missing"], park)).toBe(null);
+    expect(evaluateExpression(["has", "name"], park)).toBe(true);
+    expect(evaluateExpression(["id"], park)).toBe(7);
+    expect(evaluateExpression(["geometry-type"], park)).toBe("Polygon");
+    expect(evaluateExpression(["zoom"], park)).toBe(12);
+  });
+
+  it("doesn't find properties on the prototype", () => {
+    expect(evaluateExpression(["has", "constructor"], park)).toBe(false);
+    expect(evaluateExpression(["get", "toString"], park)).toBe(null);
+  });
+
+  it("returns null without a feature", () => {
+    const empty = contextWith();
+    expect(evaluateExpression(["get", "type"], empty)).toBe(null);
+    expect(evaluateExpression(["has", "type"], empty)).toBe(false);
+    expect(evaluateExpression(["id"], empty)).toBe(null);
+  });
+
+  it("compares values of the same type only", () => {
+    expect(evaluateExpression([">", ["get", "area"], 100], park)).toBe(true);
+    expect(evaluateExpression(["<=", ["get", "area"], 100], park)).toBe(false);
+    expect(evaluateExpression([">", ["get", "area"], "100"], park)).toBe(false);
+    expect(evaluateExpression(["<", ["get", "name"], 1], park)).toBe(false);
+  });
+
+  it("combines conditions", () => {
+    const isBigPark = [
+      "all",
+      ["==", ["get", "type"], "park"],
+      [">=", ["get", "area"], 100]
+    ];
+    expect(evaluateExpression(isBigPark, park)).toBe(true);
+    expect(evaluateExpression(["!", isBigPark], park)).toBe(false);
+    expect(evaluateExpression(["any"], park)).toBe(false);
+    expect(evaluateExpression(["all"], park)).toBe(true);
+  });
+
+  it("looks values up in lists and strings", () => {
+    const types = ["literal", ["park", "garden"]];
+    expect(evaluateExpression(["in", ["get", "type"], types], park)).toBe(true);
+    expect(evaluateExpression(["in", "ar", "park"], park)).toBe(true);
+    expect(evaluateExpression(["in", 1, "1"], park)).toBe(false);
+  });
+
+  it("picks the first matching case or match branch", () => {
+    const size = ["case", [">", ["get", "area"], 1000], "large", "small"];
+    expect(evaluateExpression(size, park)).toBe("small");
+
+    const icon = [
+      "match",
+      ["get", "type"],
+      ["park", "garden"],
+      "tree",
+      "water",
+      "wave",
+      "pin"
+    ];
+    expect(evaluateExpression(icon, park)).toBe("tree");
+    expect(evaluateExpression(icon, contextWith({ properties: {} }))).toBe(
+      "pin"
+    );
+  });
+
+  it("coalesces and converts values", () => {
+    expect(
+      evaluateExpression(["coalesce", ["get", "name"], "Unnamed"], park)
+    ).toBe("Unnamed");
+    expect(evaluateExpression(["to-boolean", ["get", "name"]], park)).toBe(
+      false
+    );
+    expect(evaluateExpression(["to-number", "4.5"], park)).toBe(4.5);
+    expect(evaluateExpression(["to-string", ["get", "name"]], park)).toBe("");
+  });
+});
+
+describe("validateExpression", () => {
+  it("accepts constants and well-formed expressions", () => {
+    expect(validateExpression(null, "visible")).toEqual([]);
+    expect(
+      validateExpression(["==", ["get", "type"], "park"], "visible")
+    ).toEqual([]);
+    expect(
+      validateExpression(["match", ["get", "type"], ["a", "b"], 1, 0], "x")
+    ).toEqual([]);
+  });
+
+  it("doesn't check literal values", () => {
+    expect(validateExpression(["literal", [{}, "x"]], "x")).toEqual([]);
+  });
+
+  it("reports unknown operators and non-expression values", () => {
+    expect(validateExpression(["nope"], "items[0].visible")).toEqual([
+      'items[0].visible: unknown expression operator "nope"'
+    ]);
+    expect(validateExpression(["constructor"], "x")).toEqual([
+      'x: unknown expression operator "constructor"'
+    ]);
+    expect(validateExpression({}, "x")).toEqual([
+      "x: expected an expression array or a string, number or boolean"
+    ]);
+    expect(validateExpression([1, 2], "x")).toEqual([
+      'x: expected an operator name as the first element, e.g. ["get", "name"]'
+    ]);
+  });
+
+  it("reports the wrong number of arguments", () => {
+    expect(validateExpression(["get"], "x")).toEqual([
+      'x: "get" expects 1 argument, got 0'
+    ]);
+    expect(validateExpression(["==", 1], "x")).toEqual([
+      'x: "==" expects 2 arguments, got 1'
+    ]);
+    expect(validateExpression(["case", true], "x")).toEqual([
+      'x: "case" expects at least 3 arguments, got 1'
+    ]);
+  });
+
+  it("reports missing fallbacks", () => {
+    expect(validateExpression(["case", true, 1, false, 2], "x")).toEqual([
+      'x: "case" expects condition/output pairs and a fallback'
+    ]);
+    expect(validateExpression(["match", 1, 1, "a", 2, "b"], "x")).toEqual([
+      'x: "match" expects an input, label/output pairs and a fallback'
+    ]);
+  });
+
+  it("reports problems in nested expressions with their path", () => {
+    expect(
+      validateExpression(["all", true, ["get", "a", "b"]], "visible")
+    ).toEqual(['visible[2]: "get" expects 1 argument, got 2']);
+  });
+});
@@ -0,0 +1,255 @@
+import type { ContextMenuContext } from "../types";
+
+type Evaluate = (args: unknown[], ctx: ContextMenuContext) => unknown;
+
+interface Operator {
+  /** The smallest number of arguments the operator takes */
+  min: number;
+  /** The largest number of arguments the operator takes, if limited */
+  max?: number;
+  evaluate: Evaluate;
+}
+
+function feature(ctx: ContextMenuContext): GeoJSON.Feature | undefined {
+  return ctx.event.features?.[0];
+}
+
+/** Checks for an own key, so names like "constructor" aren't found on the prototype */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function compare(
+  test: (a: number | string, b: number | string) => boolean
+): Evaluate {
+  return ([a, b], ctx) => {
+    const left = evaluateExpression(a, ctx);
+    const right = evaluateExpression(b, ctx);
+    // Like Mapbox filters, values of different types never compare as ordered
+    if (
+      (typeof left !== "number" && typeof left !== "string") ||
+      typeof left !== typeof right
+    ) {
+      return false;
+    }
+    return test(left, right as number | string);
+  };
+}
+
+const OPERATORS: Record<string, Operator> = {
+  literal: { min: 1, max: 1, evaluate: ([value]) => value },
+  get: {
+    min: 1,
+    max: 1,
+    evaluate: ([name], ctx) => {
+      const properties = feature(ctx)?.properties;
+      const key = String(evaluateExpression(name, ctx));
+      return properties && hasOwn(properties, key)
+        ? (properties[key] ?? null)
+        : null;
+    }
+  },
+  has: {
+    min: 1,
+    max: 1,
+    evaluate: ([name], ctx) => {
+      const properties = feature(ctx)?.properties;
+      return (
+        !!properties &&
+        hasOwn(properties, String(evaluateExpression(name, ctx)))
+      );
+    }
+  },
+  id: { min: 0, max: 0, evaluate: (_, ctx) => feature(ctx)?.id ?? null },
+  "geometry-type": {
+    min: 0,
+    max: 0,
+    evaluate: (_, ctx) => feature(ctx)?.geometry?.type ?? null
+  },
+  zoom: { min: 0, max: 0, evaluate: (_, ctx) => ctx.map.getZoom() },
+  "!": {
+    min: 1,
+    max: 1,
+    evaluate: ([value], ctx) => evaluateExpression(value, ctx) !== true
+  },
+  "==": {
+    min: 2,
+    max: 2,
+    evaluate: ([a, b], ctx) =>
+      evaluateExpression(a, ctx) === evaluateExpression(b, ctx)
+  },
+  "!=": {
+    min: 2,
+    max: 2,
+    evaluate: ([a, b], ctx) =>
+      evaluateExpression(a, ctx) !== evaluateExpression(b, ctx)
+  },
+  "<": { min: 2, max: 2, evaluate: compare((a, b) => a < b) },
+  "<=": { min: 2, max: 2, evaluate: compare((a, b) => a <= b) },
+  ">": { min: 2, max: 2, evaluate: compare((a, b) => a > b) },
+  ">=": { min: 2, max: 2, evaluate: compare((a, b) => a >= b) },
+  all: {
+    min: 0,
+    evaluate: (args, ctx) =>
+      args.every((arg) => evaluateExpression(arg, ctx) === true)
+  },
+  any: {
+    min: 0,
+    evaluate: (args, ctx) =>
+      args.some((arg) => evaluateExpression(arg, ctx) === true)
+  },
+  in: {
+    min: 2,
+    max: 2,
+    evaluate: ([needle, haystack], ctx) => {
+      const value = evaluateExpression(needle, ctx);
+      const list = evaluateExpression(haystack, ctx);
+      if (typeof list === "string") {
+        return typeof value === "string" && list.includes(value);
+      }
+      return Array.isArray(list) && list.includes(value);
+    }
+  },
+  case: {
+    min: 3,
+    evaluate: (args, ctx) => {
+      for (let i = 0; i < args.length - 1; i += 2) {
+        if (evaluateExpression(args[i], ctx) === true) {
+          return evaluateExpression(args[i + 1], ctx);
+        }
+      }
+      return evaluateExpression(args[args.length - 1], ctx);
+    }
+  },
+  match: {
+    min: 4,
+    evaluate: ([input, ...args], ctx) => {
+      const value = evaluateExpression(input, ctx);
+      for (let i = 0; i < args.length - 1; i += 2) {
+        const labels = Array.isArray(args[i]) ? args[i] : [args[i]];
+        if ((labels as unknown[]).includes(value)) {
+          return evaluateExpression(args[i + 1], ctx);
+        }
+      }
+      return evaluateExpression(args[args.length - 1], ctx);
+    }
+  },
+  coalesce: {
+    min: 1,
+    evaluate: (args, ctx) => {
+      for (const arg of args) {
+        const value = evaluateExpression(arg, ctx);
+        if (value !== null && value !== undefined) return value;
+      }
+      return null;
+    }
+  },
+  "to-boolean": {
+    min: 1,
+    max: 1,
+    evaluate: ([value], ctx) => Boolean(evaluateExpression(value, ctx))
+  },
+  "to-number": {
+    min: 1,
+    max: 1,
+    evaluate: ([value], ctx) => Number(evaluateExpression(value, ctx))
+  },
+  "to-string": {
+    min: 1,
+    max: 1,
+    evaluate: ([value], ctx) => {
+      const result = evaluateExpression(value, ctx);
+      return result === null || result === undefined ? "" : String(result);
+    }
+  }
+};
+
+/**
+ * Checks an expression, returning a readable message for each problem found.
+ * @param expression - The expression to check.
+ * @param path - Where the expression is in the spec, e.g. "items[2].visible".
+ * @internal
+ */
+export function validateExpression(
+  expression: unknown,
+  path: string
+): string[] {
+  if (!Array.isArray(expression)) {
+    const type = typeof expression;
+    return expression === null ||
+      type === "string" ||
+      type === "number" ||
+      type === "boolean"
+      ? []
+      : [
+          `${path}: expected an expression array or a string, number or boolean`
+        ];
+  }
+
+  const [name, ...args] = expression;
+  if (typeof name !== "string") {
+    return [
+      `${path}: expected an operator name as the first element, e.g. ["get", "name"]`
+    ];
+  }
+
+  if (!hasOwn(OPERATORS, name)) {
+    return [`${path}: unknown expression operator "${name}"`];
+  }
+  const operator = OPERATORS[name];
+
+  if (
+    args.length < operator.min ||
+    (operator.max !== undefined && args.length > operator.max)
+  ) {
+    const expected =
+      operator.max === undefined
+        ? `at least ${operator.min}`
+        : operator.min === operator.max
+          ? `${operator.min}`
+          : `${operator.min} to ${operator.max}`;
+    const noun = expected.endsWith("1") ? "argument" : "arguments";
+    return [
+      `${path}: "${name}" expects ${expected} ${noun}, got ${args.length}`
+    ];
+  }
+
+  if (name === "literal") return [];
+
+  const errors: string[] = [];
+  args.forEach((arg, i) => {
+    // Match labels are plain values, not expressions
+    const isMatchLabel = name === "match" && i % 2 === 1 && i < args.length - 1;
+    if (isMatchLabel) return;
+
+    errors.push(...validateExpression(arg, `${path}[${i + 1}]`));
+  });
+
+  if (name === "case" && args.length % 2 === 0) {
+    errors.push(
+      `${path}: "case" expects condition/output pairs and a fallback`
+    );
+  }
+  if (name === "match" && args.length % 2 === 1) {
+    errors.push(
+      `${path}: "match" expects an input, label/output pairs and a fallback`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Evaluates a Mapbox-style expression against the first feature of a context,
+ * e.g. `["==", ["get", "type"], "park"]`. Expressions should be validated first.
+ * @internal
+ */
+export function evaluateExpression(
+  expression: unknown,
+  ctx: ContextMenuContext
+): unknown {
+  if (!Array.isArray(expression)) return expression;
+
+  const [name, ...args] = expression;
+  return OPERATORS[name as string].evaluate(args, ctx);
+}
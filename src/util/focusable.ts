@@ -7,7 +7,6 @@ export function isFocusable(item: MenuItem): item is MenuItem & Focusable {
   return (
     "focus" in item &&
     "blur" in item &&
-    "click" in item &&
     typeof (item as Focusable).focus === "function"
   );
 }
@@ -0,0 +1,135 @@
+import type { Map as MapboxMap, MapTouchEvent } from "mapbox-gl";
+
+/**
+ * Options for the long-press gesture that opens the menu on touch devices.
+ */
+export interface LongPressOptions {
+  /** How long, in milliseconds, the touch must be held before the menu opens. Defaults to 500. */
+  delay?: number;
+  /** How far, in pixels, the touch may move before the gesture is cancelled. Defaults to 10. */
+  tolerance?: number;
+}
+
+/**
+ * Recognizes a single-finger long press on a map.
+ *
+ * The gesture is cancelled when a second finger touches the map (pinch),
+ * when the touch moves further than the tolerance (pan), or when the map
+ * starts moving for any other reason.
+ *
+ * @internal
+ */
+export class LongPressHandler {
+  private _map: MapboxMap;
+  private _callback: (e: MapTouchEvent) => void;
+  private _delay: number;
+  private _tolerance: number;
+
+  private _timeout: number | null = null;
+  private _startEvent: MapTouchEvent | null = null;
+  private _fired: boolean = false;
+
+  private _mapHandlers = {
+    touchstart: null as ((e: MapTouchEvent) => void) | null,
+    touchmove: null as ((e: MapTouchEvent) => void) | null,
+    touchend: null as ((e: MapTouchEvent) => void) | null,
+    touchcancel: null as (() => void) | null,
+    movestart: null as (() => void) | null
+  };
+
+  constructor(
+    map: MapboxMap,
+    callback: (e: MapTouchEvent) => void,
+    options?: LongPressOptions
+  ) {
+    this._map = map;
+    this._callback = callback;
+    this._delay = options?.delay ?? 500;
+    this._tolerance = options?.tolerance ?? 10;
+  }
+
+  /**
+   * Whether the current touch has already been recognized as a long press.
+   * Used to ignore the native `contextmenu` event some browsers fire for the same touch.
+   */
+  get fired(): boolean {
+    return this._fired;
+  }
+
+  /**
+   * Starts listening for touch events on the map.
+   */
+  enable(): void {
+    this._mapHandlers.touchstart = (e: MapTouchEvent) => {
+      this.cancel();
+      this._fired = false;
+
+      if (e.points.length !== 1) return;
+
+      this._startEvent = e;
+      this._timeout = window.setTimeout(() => {
+        this._timeout = null;
+        this._fired = true;
+        this._callback(this._startEvent!);
+      }, this._delay);
+    };
+
+    this._mapHandlers.touchmove = (e: MapTouchEvent) => {
+      if (!this._startEvent) return;
+
+      if (
+        e.points.length !== 1 ||
+        e.point.dist(this._startEvent.point) > this._tolerance
+      ) {
+        this.cancel();
+      }
+    };
+
+    this._mapHandlers.touchend = (e: MapTouchEvent) => {
+      // Suppress the emulated mouse events that would immediately close the menu
+      if (this._fired && e.originalEvent.cancelable) {
+        e.originalEvent.preventDefault();
+      }
+      this.cancel();
+      this._fired = false;
+    };
+
+    this._mapHandlers.touchcancel = () => {
+      this.cancel();
+      this._fired = false;
+    };
+
+    this._mapHandlers.movestart = () => {
+      this.cancel();
+    };
+
+    for (const [event, handler] of Object.entries(this._mapHandlers)) {
+      this._map.on(event as "touchstart", handler as () => void);
+    }
+  }
+
+  /**
+   * Stops listening for touch events and cancels any pending gesture.
+   */
+  disable(): void {
+    this.cancel();
+
+    for (const [event, handler] of Object.entries(this._mapHandlers)) {
+      if (!handler) continue;
+
+      this._map.off(event as "touchstart", handler as () => void);
+      this._mapHandlers[event as keyof typeof this._mapHandlers] = null;
+    }
+  }
+
+  /**
+   * Cancels a pending gesture without firing the callback.
+   */
+  cancel(): void {
+    if (this._timeout !== null) {
+      clearTimeout(this._timeout);
+      this._timeout = null;
+    }
+    this._startEvent = null;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Moves a box so it lies inside its container, keeping it as close as possible to
+ * the requested position. Boxes larger than the container are aligned to its
+ * top-left corner.
+ * @internal
+ */
+export function fitInContainer(
+  x: number,
+  y: number,
+  size: { width: number; height: number },
+  container: { width: number; height: number }
+): { left: number; top: number } {
+  let left = x;
+  let top = y;
+
+  if (left + size.width > container.width) {
+    left = container.width - size.width;
+  }
+  if (top + size.height > container.height) {
+    top = container.height - size.height;
+  }
+
+  if (left < 0) left = 0;
+  if (top < 0) top = 0;
+
+  return { left, top };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatAriaShortcut,
+  formatShortcut,
+  isPlainShortcut,
+  matchesShortcut,
+  parseShortcut
+} from "./shortcut";
+
+function keydown(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  return new KeyboardEvent("keydown", { key, ...init });
+}
+
+describe("parseShortcut", () => {
+  it("parses modifiers case-insensitively", () => {
+    expect(parseShortcut("mod+Shift+C")).toEqual({
+      key: "C",
+      mod: true,
+      ctrl: false,
+      meta: false,
+      alt: false,
+      shift: true
+    });
+  });
+
+  it("accepts modifier aliases", () => {
+    expect(parseShortcut("Control+Option+Cmd+K")).toMatchObject({
+      ctrl: true,
+      alt: true,
+      meta: true
+    });
+  });
+
+  it("treats a trailing plus as the plus key", () => {
+    expect(parseShortcut("+")).toMatchObject({ key: "+", mod: false });
+    expect(parseShortcut("Mod++")).toMatchObject({ key: "+", mod: true });
+  });
+});
+
+describe("formatShortcut", () => {
+  it("uses glyphs in the macOS order on Apple platforms", () => {
+    expect(formatShortcut("Shift+Mod+Alt+C", true)).toBe("⌥⇧⌘C");
+    expect(formatShortcut("Ctrl+ArrowUp", true)).toBe("⌃↑");
+  });
+
+  it("spells out modifiers elsewhere", () => {
+    expect(formatShortcut("Mod+Shift+c", false)).toBe("Ctrl+Shift+C");
+    expect(formatShortcut("Meta+Delete", false)).toBe("Win+⌦");
+  });
+
+  it("names the space key", () => {
+    expect(formatShortcut("Mod+ ", false)).toBe("Ctrl+Space");
+  });
+});
+
+describe("formatAriaShortcut", () => {
+  it("resolves Mod for the platform", () => {
+    expect(formatAriaShortcut("Mod+C", true)).toBe("Meta+C");
+    expect(formatAriaShortcut("Mod+Shift+C", false)).toBe("Control+Shift+C");
+  });
+});
+
+describe("isPlainShortcut", () => {
+  it("allows Shift but no other modifier", () => {
+    expect(isPlainShortcut("D")).toBe(true);
+    expect(isPlainShortcut("Shift+?")).toBe(true);
+    expect(isPlainShortcut("Mod+D")).toBe(false);
+    expect(isPlainShortcut("Alt+D")).toBe(false);
+  });
+});
+
+describe("matchesShortcut", () => {
+  it("matches Mod to Cmd on Apple platforms and Ctrl elsewhere", () => {
+    const cmdC = keydown("c", { metaKey: true });
+    const ctrlC = keydown("c", { ctrlKey: true });
+
+    expect(matchesShortcut(cmdC, "Mod+C", true)).toBe(true);
+    expect(matchesShortcut(ctrlC, "Mod+C", true)).toBe(false);
+    expect(matchesShortcut(ctrlC, "Mod+C", false)).toBe(true);
+  });
+
+  it("requires the modifiers to match exactly", () => {
+    const ctrlAltC = keydown("c", { ctrlKey: true, altKey: true });
+    const ctrlShiftC = keydown("C", { ctrlKey: true, shiftKey: true });
+
+    expect(matchesShortcut(ctrlAltC, "Mod+C", false)).toBe(false);
+    expect(matchesShortcut(ctrlShiftC, "Mod+C", false)).toBe(false);
+    expect(matchesShortcut(ctrlShiftC, "Mod+Shift+C", false)).toBe(true);
+  });
+
+  it("ignores Shift for symbols", () => {
+    const question = keydown("?", { shiftKey: true });
+    const ctrlPlus = keydown("+", { ctrlKey: true, shiftKey: true });
+
+    expect(matchesShortcut(question, "?", false)).toBe(true);
+    expect(matchesShortcut(ctrlPlus, "Mod++", false)).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+interface Shortcut {
+  key: string;
+  mod: boolean;
+  ctrl: boolean;
+  meta: boolean;
+  alt: boolean;
+  shift: boolean;
+}
+
+const MAC_GLYPHS: Record<string, string> = {
+  ctrl: "⌃",
+  alt: "⌥",
+  shift: "⇧",
+  meta: "⌘"
+};
+
+const KEY_GLYPHS: Record<string, string> = {
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+  enter: "↵",
+  escape: "Esc",
+  backspace: "⌫",
+  delete: "⌦",
+  " ": "Space"
+};
+
+/**
+ * @internal
+ */
+export function isApplePlatform(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    /Mac|iPhone|iPad|iPod/.test(navigator.platform || navigator.userAgent)
+  );
+}
+
+/**
+ * Parses a shortcut such as "Mod+Shift+C" or "+". "Mod" is Cmd on Apple
+ * platforms and Ctrl elsewhere.
+ * @internal
+ */
+export function parseShortcut(shortcut: string): Shortcut {
+  const parts = shortcut.split("+");
+  let key = parts.pop()!;
+
+  // A trailing "+" is the plus key itself, e.g. "+" or "Mod++"
+  if (key === "" && parts.length > 0) {
+    key = "+";
+    parts.pop();
+  }
+
+  const modifiers = parts.map((part) => part.trim().toLowerCase());
+
+  return {
+    key,
+    mod: modifiers.includes("mod"),
+    ctrl: modifiers.includes("ctrl") || modifiers.includes("control"),
+    meta: modifiers.some((m) => m === "meta" || m === "cmd" || m === "command"),
+    alt: modifiers.includes("alt") || modifiers.includes("option"),
+    shift: modifiers.includes("shift")
+  };
+}
+
+function resolveModifiers(shortcut: Shortcut, apple: boolean) {
+  return {
+    ctrl: shortcut.ctrl || (shortcut.mod && !apple),
+    meta: shortcut.meta || (shortcut.mod && apple),
+    alt: shortcut.alt,
+    shift: shortcut.shift
+  };
+}
+
+/**
+ * Formats a shortcut for display, using modifier glyphs on Apple platforms
+ * (e.g. "⌘C") and spelled-out modifiers elsewhere (e.g. "Ctrl+C").
+ * @internal
+ */
+export function formatShortcut(
+  shortcut: string,
+  apple: boolean = isApplePlatform()
+): string {
+  const parsed = parseShortcut(shortcut);
+  const { ctrl, meta, alt, shift } = resolveModifiers(parsed, apple);
+  const key =
+    KEY_GLYPHS[parsed.key.toLowerCase()] ??
+    (parsed.key.length === 1 ? parsed.key.toUpperCase() : parsed.key);
+
+  if (apple) {
+    const glyphs = [
+      ctrl && MAC_GLYPHS.ctrl,
+      alt && MAC_GLYPHS.alt,
+      shift && MAC_GLYPHS.shift,
+      meta && MAC_GLYPHS.meta
+    ].filter(Boolean);
+    return `${glyphs.join("")}${key}`;
+  }
+
+  const names = [
+    ctrl && "Ctrl",
+    meta && "Win",
+    alt && "Alt",
+    shift && "Shift"
+  ].filter(Boolean);
+  return [...names, key].join("+");
+}
+
+/**
+ * Formats a shortcut for the `aria-keyshortcuts` attribute, e.g. "Control+C".
+ * @internal
+ */
+export function formatAriaShortcut(
+  shortcut: string,
+  apple: boolean = isApplePlatform()
+): string {
+  const parsed = parseShortcut(shortcut);
+  const { ctrl, meta, alt, shift } = resolveModifiers(parsed, apple);
+  const key = parsed.key === " " ? "Space" : parsed.key;
+
+  return [
+    ctrl && "Control",
+    meta && "Meta",
+    alt && "Alt",
+    shift && "Shift",
+    key
+  ]
+    .filter(Boolean)
+    .join("+");
+}
+
+/**
+ * Whether a shortcut is a key on its own or with Shift, which is typed as text
+ * rather than used as a command, e.g. "D" or "?" but not "Mod+D".
+ * @internal
+ */
+export function isPlainShortcut(shortcut: string): boolean {
+  const { mod, ctrl, meta, alt } = parseShortcut(shortcut);
+  return !mod && !ctrl && !meta && !alt;
+}
+
+/**
+ * Checks whether a keyboard event matches a shortcut.
+ * @internal
+ */
+export function matchesShortcut(
+  ev: KeyboardEvent,
+  shortcut: string,
+  apple: boolean = isApplePlatform()
+): boolean {
+  const parsed = parseShortcut(shortcut);
+  const { ctrl, meta, alt, shift } = resolveModifiers(parsed, apple);
+
+  if (ev.key.toLowerCase() !== parsed.key.toLowerCase()) return false;
+  if (ev.ctrlKey !== ctrl || ev.metaKey !== meta || ev.altKey !== alt) {
+    return false;
+  }
+
+  // Symbols such as "+" or "?" need Shift on many layouts, so only letters
+  // and named keys have to match it exactly
+  const isSymbol =
+    parsed.key.length === 1 &&
+    parsed.key.toLowerCase() === parsed.key.toUpperCase();
+  return isSymbol || ev.shiftKey === shift;
+}
@@ -0,0 +1,251 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ContextMenuContext, ContextMenuSpec } from "../types";
+import ContextMenuCheckboxItem from "../components/ContextMenuCheckboxItem";
+import ContextMenuItem from "../components/ContextMenuItem";
+import ContextMenuLabel from "../components/ContextMenuLabel";
+import ContextMenuSeparator from "../components/ContextMenuSeparator";
+import ContextMenuSubmenu from "../components/ContextMenuSubmenu";
+import {
+  ContextMenuSpecError,
+  createItemsFromSpec,
+  itemsToSpec,
+  validateSpec
+} from "./spec";
+
+function contextWith(properties: Record<string, unknown>): ContextMenuContext {
+  return {
+    map: { getZoom: () => 10 },
+    event: {
+      point: { x: 0, y: 0 },
+      lngLat: { lng: 174.76, lat: -36.85 },
+      features: [{ type: "Feature", geometry: null, properties }]
+    }
+  } as unknown as ContextMenuContext;
+}
+
+const spec: ContextMenuSpec = {
+  items: [
+    { type: "label", label: "Feature" },
+    {
+      label: "Delete",
+      icon: "fa-solid fa-trash",
+      action: "delete",
+      shortcut: "Delete",
+      variant: "danger",
+      disabled: ["==", ["get", "locked"], true],
+      disabledReason: "Locked features can't be deleted"
+    },
+    { type: "separator" },
+    {
+      type: "submenu",
+      label: "Share",
+      visible: ["has", "url"],
+      items: [{ label: "Copy link", action: "copyLink" }]
+    }
+  ]
+};
+
+describe("createItemsFromSpec", () => {
+  it("creates an item of the right type for each entry", () => {
+    const actions = { delete: vi.fn(), copyLink: vi.fn() };
+    const [label, del, separator, share] = createItemsFromSpec(spec, actions);
+
+    expect(label).toBeInstanceOf(ContextMenuLabel);
+    expect(separator).toBeInstanceOf(ContextMenuSeparator);
+    expect(del).toBeInstanceOf(ContextMenuItem);
+    expect((del as ContextMenuItem).label).toBe("Delete");
+    expect((del as ContextMenuItem).variant).toBe("danger");
+    expect(share).toBeInstanceOf(ContextMenuSubmenu);
+    expect((share as ContextMenuSubmenu).items).toHaveLength(1);
+  });
+
+  it("runs the named action when an item is clicked", () => {
+    const actions = { delete: vi.fn(), copyLink: vi.fn() };
+    const del = createItemsFromSpec(spec, actions)[1] as ContextMenuItem;
+
+    del.trigger(contextWith({ locked: false }));
+
+    expect(actions.delete).toHaveBeenCalledTimes(1);
+    expect(actions.delete.mock.calls[0][0]).toMatchObject({
+      type: "click",
+      target: del,
+      lngLat: { lng: 174.76, lat: -36.85 }
+    });
+    expect(actions.copyLink).not.toHaveBeenCalled();
+  });
+
+  it("evaluates conditions against the context's feature", () => {
+    const actions = { delete: vi.fn(), copyLink: vi.fn() };
+    const [, del, , share] = createItemsFromSpec(spec, actions) as [
+      ContextMenuLabel,
+      ContextMenuItem,
+      ContextMenuSeparator,
+      ContextMenuSubmenu
+    ];
+
+    expect(del.isEnabled(contextWith({ locked: false }))).toBe(true);
+    expect(del.isEnabled(contextWith({ locked: true }))).toBe(false);
+    expect(share.isEnabled(contextWith({}))).toBe(false);
+    expect(share.isEnabled(contextWith({ url: "https://example.com" }))).toBe(
+      true
+    );
+
+    del.trigger(contextWith({ locked: true }));
+    expect(actions.delete).not.toHaveBeenCalled();
+  });
+
+  it("throws every problem found, with its path", () => {
+    const invalid = {
+      items: [
+        { label: "Share", action: "share" },
+        { type: "submenu", label: "", items: [{ type: "button" }] },
+        { label: "Rename", visible: ["get"], colour: "red" }
+      ]
+    } as unknown as ContextMenuSpec;
+
+    let error: unknown;
+    try {
+      createItemsFromSpec(invalid, {});
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ContextMenuSpecError);
+    expect((error as ContextMenuSpecError).errors).toEqual([
+      'items[0].action: no action named "share" in the registry',
+      "items[1].label: expected a non-empty string",
+      'items[1].items[0].type: unknown item type "button", expected "item", "label", "separator" or "submenu"',
+      'items[2]: unknown property "colour" for type "item"',
+      'items[2].visible: "get" expects 1 argument, got 0'
+    ]);
+    expect((error as Error).message).toContain(
+      '  - items[0].action: no action named "share" in the registry'
+    );
+  });
+});
+
+describe("validateSpec", () => {
+  it("accepts a valid spec", () => {
+    const actions = { delete: () => {}, copyLink: () => {} };
+    expect(validateSpec(spec, actions)).toEqual([]);
+  });
+
+  it("reports a spec that isn't an object with items", () => {
+    expect(validateSpec([], {})).toEqual([
+      "spec: expected an object with an `items` array"
+    ]);
+    expect(validateSpec({ item: [] }, {})).toEqual([
+      'spec: unknown property "item"',
+      "items: expected an array of items"
+    ]);
+  });
+
+  it("reports an accelerator that isn't a boolean", () => {
+    const items = [{ label: "Delete", shortcut: "D", accelerator: "yes" }];
+    expect(validateSpec({ items }, {})).toEqual([
+      "items[0].accelerator: expected true or false"
+    ]);
+  });
+
+  it("doesn't find actions on the registry's prototype", () => {
+    const items = [{ label: "Share", action: "toString" }];
+    expect(validateSpec({ items }, {})).toEqual([
+      'items[0].action: no action named "toString" in the registry'
+    ]);
+  });
+});
+
+describe("itemsToSpec", () => {
+  it("returns the spec items were created from", () => {
+    const actions = { delete: () => {}, copyLink: () => {} };
+    expect(itemsToSpec(createItemsFromSpec(spec, actions))).toEqual(spec);
+  });
+
+  it("describes items built in code", () => {
+    const submenu = new ContextMenuSubmenu({ label: "More" });
+    submenu.addItem(
+      new ContextMenuItem({
+        label: "Copy",
+        start: { className: "icon-copy" },
+        shortcut: "Mod+C"
+      })
+    );
+
+    expect(itemsToSpec([submenu])).toEqual({
+      items: [
+        {
+          type: "submenu",
+          label: "More",
+          items: [{ label: "Copy", icon: "icon-copy", shortcut: "Mod+C" }]
+        }
+      ]
+    });
+  });
+
+  it("describes the static state of items built in code", () => {
+    const submenu = new ContextMenuSubmenu({ label: "Share", hidden: true });
+    submenu.addItem(
+      new ContextMenuItem({
+        label: "Delete",
+        shortcut: "D",
+        accelerator: true,
+        disabled: true,
+        disabledReason: "Read only"
+      })
+    );
+
+    const described = itemsToSpec([submenu]);
+    expect(described).toEqual({
+      items: [
+        {
+          type: "submenu",
+          label: "Share",
+          visible: false,
+          items: [
+            {
+              label: "Delete",
+              shortcut: "D",
+              accelerator: true,
+              disabled: true,
+              disabledReason: "Read only"
+            }
+          ]
+        }
+      ]
+    });
+
+    const [share] = createItemsFromSpec(described, {}) as [ContextMenuSubmenu];
+    const del = share.items[0] as ContextMenuItem;
+    expect(share.isEnabled(contextWith({}))).toBe(false);
+    expect(del.isEnabled(contextWith({}))).toBe(false);
+    expect(del.accelerator).toBe(true);
+    expect(itemsToSpec([share])).toEqual(described);
+  });
+
+  it("throws for options that are functions of the context", () => {
+    const item = new ContextMenuItem({
+      label: ({ event }) => `Delete ${event.features?.length}`,
+      hidden: ({ event }) => !event.features?.length
+    });
+
+    let error: unknown;
+    try {
+      itemsToSpec([item]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ContextMenuSpecError);
+    expect((error as ContextMenuSpecError).errors).toEqual([
+      "items[0].label: a function of the context can't be described by a spec",
+      "items[0].visible: a function of the context can't be described by a spec"
+    ]);
+  });
+
+  it("throws for items a spec can't describe", () => {
+    const checkbox = new ContextMenuCheckboxItem({ label: "Show labels" });
+    expect(() => itemsToSpec([new ContextMenuSeparator(), checkbox])).toThrow(
+      "items[1]: only items, labels, separators and submenus can be described by a spec"
+    );
+  });
+});
@@ -0,0 +1,413 @@
+import type {
+  ContextMenuActionItemSpec,
+  ContextMenuActions,
+  ContextMenuExpression,
+  ContextMenuItemSpec,
+  ContextMenuSpec,
+  ContextMenuSubmenuSpec,
+  ContextValue,
+  MenuItem
+} from "../types";
+import ContextMenuItem from "../components/ContextMenuItem";
+import ContextMenuLabel from "../components/ContextMenuLabel";
+import ContextMenuSeparator from "../components/ContextMenuSeparator";
+import ContextMenuSubmenu from "../components/ContextMenuSubmenu";
+import { evaluateExpression, validateExpression } from "./expression";
+
+/**
+ * Thrown when a menu spec is invalid, or when a menu can't be described by one.
+ * Lists every problem found, each prefixed with where it is in the spec,
+ * e.g. `items[2].action: no action named "share" in the registry`.
+ */
+export class ContextMenuSpecError extends Error {
+  /** The problems found, one per entry. */
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(`${message}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+    this.name = "ContextMenuSpecError";
+    this.errors = errors;
+  }
+}
+
+/** The properties each item type accepts, for catching typos */
+const ITEM_PROPERTIES: Record<string, string[]> = {
+  item: [
+    "type",
+    "label",
+    "icon",
+    "action",
+    "shortcut",
+    "accelerator",
+    "variant",
+    "visible",
+    "disabled",
+    "disabledReason"
+  ],
+  label: ["type", "label"],
+  separator: ["type"],
+  submenu: ["type", "label", "icon", "items", "visible", "disabled"]
+};
+
+/** The specs that items were created from, for serializing them back */
+const itemSpecs = new WeakMap<MenuItem, ContextMenuItemSpec>();
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateItem(
+  item: unknown,
+  path: string,
+  actions: ContextMenuActions,
+  errors: string[]
+): void {
+  if (!isObject(item)) {
+    errors.push(`${path}: expected an item object`);
+    return;
+  }
+
+  const type = item.type ?? "item";
+  if (
+    typeof type !== "string" ||
+    !Object.prototype.hasOwnProperty.call(ITEM_PROPERTIES, type)
+  ) {
+    errors.push(
+      `${path}.type: unknown item type ${JSON.stringify(type)}, expected "item", "label", "separator" or "submenu"`
+    );
+    return;
+  }
+
+  const properties = ITEM_PROPERTIES[type];
+  for (const key of Object.keys(item)) {
+    if (!properties.includes(key)) {
+      errors.push(`${path}: unknown property "${key}" for type "${type}"`);
+    }
+  }
+
+  if (type !== "separator" && (typeof item.label !== "string" || !item.label)) {
+    errors.push(`${path}.label: expected a non-empty string`);
+  }
+
+  for (const key of ["icon", "shortcut", "disabledReason"]) {
+    if (key in item && typeof item[key] !== "string") {
+      errors.push(`${path}.${key}: expected a string`);
+    }
+  }
+
+  if ("action" in item) {
+    if (typeof item.action !== "string") {
+      errors.push(`${path}.action: expected the name of an action`);
+    } else if (!Object.prototype.hasOwnProperty.call(actions, item.action)) {
+      errors.push(
+        `${path}.action: no action named "${item.action}" in the registry`
+      );
+    }
+  }
+
+  if ("accelerator" in item && typeof item.accelerator !== "boolean") {
+    errors.push(`${path}.accelerator: expected true or false`);
+  }
+
+  if (
+    "variant" in item &&
+    item.variant !== "default" &&
+    item.variant !== "danger"
+  ) {
+    errors.push(`${path}.variant: expected "default" or "danger"`);
+  }
+
+  for (const key of ["visible", "disabled"]) {
+    if (key in item) {
+      errors.push(...validateExpression(item[key], `${path}.${key}`));
+    }
+  }
+
+  if (type === "submenu") {
+    validateItems(item.items, `${path}.items`, actions, errors);
+  }
+}
+
+function validateItems(
+  items: unknown,
+  path: string,
+  actions: ContextMenuActions,
+  errors: string[]
+): void {
+  if (!Array.isArray(items)) {
+    errors.push(`${path}: expected an array of items`);
+    return;
+  }
+
+  items.forEach((item, i) =>
+    validateItem(item, `${path}[${i}]`, actions, errors)
+  );
+}
+
+/**
+ * Checks a spec and the actions it refers to, returning a readable message for
+ * each problem found.
+ * @internal
+ */
+export function validateSpec(
+  spec: unknown,
+  actions: ContextMenuActions
+): string[] {
+  if (!isObject(spec)) {
+    return ["spec: expected an object with an `items` array"];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(spec)) {
+    if (key !== "items") {
+      errors.push(`spec: unknown property "${key}"`);
+    }
+  }
+  validateItems(spec.items, "items", actions, errors);
+  return errors;
+}
+
+function toHidden(visible?: ContextMenuExpression): ContextValue<boolean> {
+  if (visible === undefined) return false;
+  if (!Array.isArray(visible)) return visible !== true;
+  return (ctx) => evaluateExpression(visible, ctx) !== true;
+}
+
+function toDisabled(disabled?: ContextMenuExpression): ContextValue<boolean> {
+  if (disabled === undefined) return false;
+  if (!Array.isArray(disabled)) return disabled === true;
+  return (ctx) => evaluateExpression(disabled, ctx) === true;
+}
+
+function createItem(
+  spec: ContextMenuItemSpec,
+  actions: ContextMenuActions
+): MenuItem {
+  let item: MenuItem;
+
+  switch (spec.type) {
+    case "label":
+      item = new ContextMenuLabel({ text: spec.label });
+      break;
+
+    case "separator":
+      item = new ContextMenuSeparator();
+      break;
+
+    case "submenu": {
+      const submenu = new ContextMenuSubmenu({
+        label: spec.label,
+        start: spec.icon ? { className: spec.icon } : undefined,
+        hidden: toHidden(spec.visible),
+        disabled: toDisabled(spec.disabled)
+      });
+      for (const child of spec.items) {
+        submenu.addItem(createItem(child, actions));
+      }
+      item = submenu;
+      break;
+    }
+
+    default: {
+      const menuItem = new ContextMenuItem({
+        label: spec.label,
+        start: spec.icon ? { className: spec.icon } : undefined,
+        shortcut: spec.shortcut,
+        accelerator: spec.accelerator,
+        variant: spec.variant,
+        hidden: toHidden(spec.visible),
+        disabled: toDisabled(spec.disabled),
+        disabledReason: spec.disabledReason
+      });
+      if (spec.action) {
+        menuItem.on("click", actions[spec.action]);
+      }
+      item = menuItem;
+    }
+  }
+
+  itemSpecs.set(item, spec);
+  return item;
+}
+
+/**
+ * Validates a spec and creates its items, with each item's `action` looked up in
+ * the registry.
+ * @throws {ContextMenuSpecError} If the spec is invalid.
+ * @internal
+ */
+export function createItemsFromSpec(
+  spec: ContextMenuSpec,
+  actions: ContextMenuActions
+): MenuItem[] {
+  const errors = validateSpec(spec, actions);
+  if (errors.length > 0) {
+    throw new ContextMenuSpecError("Invalid context menu spec", errors);
+  }
+
+  return spec.items.map((item) => createItem(item, actions));
+}
+
+/**
+ * Removes properties that are `undefined`, so specs serialize cleanly.
+ */
+function compact<T extends object>(spec: T): T {
+  return Object.fromEntries(
+    Object.entries(spec).filter(([, value]) => value !== undefined)
+  ) as T;
+}
+
+/**
+ * An item's icon is its start slot when that is only a class name, as for spec items.
+ */
+function iconOf(item: ContextMenuItem): string | undefined {
+  const start = item.start;
+  if (
+    typeof start === "object" &&
+    !(start instanceof HTMLElement) &&
+    start.className &&
+    !start.content
+  ) {
+    return start.className;
+  }
+  return undefined;
+}
+
+/** Why an option set to a function in code can't be serialized */
+const CONTEXT_FUNCTION_ERROR =
+  "a function of the context can't be described by a spec";
+
+/**
+ * An item's `visible` condition: the expression it was created from, or its own
+ * state when it was set in code.
+ */
+function visibleOf(
+  item: ContextMenuItem,
+  source: ContextMenuExpression | undefined,
+  path: string,
+  errors: string[]
+): ContextMenuExpression | undefined {
+  const { hidden } = item.contextOptions;
+  if (typeof hidden !== "function") return hidden ? false : undefined;
+  if (Array.isArray(source)) return source;
+
+  errors.push(`${path}.visible: ${CONTEXT_FUNCTION_ERROR}`);
+  return undefined;
+}
+
+/**
+ * An item's `disabled` condition: the expression it was created from, or its own
+ * state when it was set in code.
+ */
+function disabledOf(
+  item: ContextMenuItem,
+  source: ContextMenuExpression | undefined,
+  path: string,
+  errors: string[]
+): ContextMenuExpression | undefined {
+  const { disabled } = item.contextOptions;
+  if (typeof disabled !== "function") return disabled ? true : undefined;
+  if (Array.isArray(source)) return source;
+
+  errors.push(`${path}.disabled: ${CONTEXT_FUNCTION_ERROR}`);
+  return undefined;
+}
+
+function labelOf(item: ContextMenuItem, path: string, errors: string[]): string {
+  if (typeof item.contextOptions.label === "function") {
+    errors.push(`${path}.label: ${CONTEXT_FUNCTION_ERROR}`);
+  }
+  return item.label;
+}
+
+function disabledReasonOf(
+  item: ContextMenuItem,
+  path: string,
+  errors: string[]
+): string | undefined {
+  const { disabledReason } = item.contextOptions;
+  if (typeof disabledReason !== "function") return disabledReason;
+
+  errors.push(`${path}.disabledReason: ${CONTEXT_FUNCTION_ERROR}`);
+  return undefined;
+}
+
+function serializeItem(
+  item: MenuItem,
+  path: string,
+  errors: string[]
+): ContextMenuItemSpec | null {
+  if (item instanceof ContextMenuLabel) {
+    return { type: "label", label: item.text };
+  }
+
+  if (item instanceof ContextMenuSeparator) {
+    return { type: "separator" };
+  }
+
+  if (item instanceof ContextMenuSubmenu) {
+    const source = itemSpecs.get(item) as ContextMenuSubmenuSpec | undefined;
+    return compact<ContextMenuSubmenuSpec>({
+      type: "submenu",
+      label: labelOf(item, path, errors),
+      icon: iconOf(item),
+      items: serializeItems(item.items, `${path}.items`, errors),
+      visible: visibleOf(item, source?.visible, path, errors),
+      disabled: disabledOf(item, source?.disabled, path, errors)
+    });
+  }
+
+  // Subclasses such as checkbox and link items have state a spec can't describe
+  if (
+    item instanceof ContextMenuItem &&
+    Object.getPrototypeOf(item) === ContextMenuItem.prototype
+  ) {
+    const source = itemSpecs.get(item) as ContextMenuActionItemSpec | undefined;
+    if (item.confirm) {
+      errors.push(`${path}.confirm: confirmation can't be described by a spec`);
+    }
+    return compact<ContextMenuActionItemSpec>({
+      label: labelOf(item, path, errors),
+      icon: iconOf(item),
+      action: source?.action,
+      shortcut: item.shortcut,
+      accelerator: item.accelerator || undefined,
+      variant: item.variant === "default" ? undefined : item.variant,
+      visible: visibleOf(item, source?.visible, path, errors),
+      disabled: disabledOf(item, source?.disabled, path, errors),
+      disabledReason: disabledReasonOf(item, path, errors)
+    });
+  }
+
+  errors.push(
+    `${path}: only items, labels, separators and submenus can be described by a spec`
+  );
+  return null;
+}
+
+function serializeItems(
+  items: readonly MenuItem[],
+  path: string,
+  errors: string[]
+): ContextMenuItemSpec[] {
+  return items
+    .map((item, i) => serializeItem(item, `${path}[${i}]`, errors))
+    .filter((spec): spec is ContextMenuItemSpec => spec !== null);
+}
+
+/**
+ * Describes items as a spec. Items created from a spec keep their action names
+ * and conditions, while items built in code are described by their label, icon,
+ * shortcut, accelerator, variant and whether they are hidden or disabled.
+ * @throws {ContextMenuSpecError} If an item can't be described by a spec.
+ * @internal
+ */
+export function itemsToSpec(items: readonly MenuItem[]): ContextMenuSpec {
+  const errors: string[] = [];
+  const spec = { items: serializeItems(items, "items", errors) };
+
+  if (errors.length > 0) {
+    throw new ContextMenuSpecError("Menu can't be described by a spec", errors);
+  }
+  return spec;
+}
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  css: {
+    preprocessorOptions: {
+      scss: {
+        api: "modern-compiler"
+      }
+    }
+  },
+  test: {
+    environment: "jsdom",
+    include: ["src/**/*.test.ts"]
+  }
+});